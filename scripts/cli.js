@@ -0,0 +1,385 @@
+#!/usr/bin/env node
+/* eslint-disable @typescript-eslint/no-require-imports */
+const fs = require('fs');
+const path = require('path');
+const { loadConfig, ConfigError } = require('./config');
+const {
+  generateTranslationTypes,
+  generateDefaultTranslations,
+} = require('./translationTypes');
+const { hashTranslations } = require('./hashTranslations');
+const { validateTranslations } = require('./validateTranslations');
+const { findUnusedAndMissingKeys, writeMissingKeys } = require('./scanSource');
+const { watchTranslations } = require('./watchTranslations');
+const {
+  exportTranslations,
+  importTranslations,
+} = require('./exchangeTranslations');
+const { detectFormat } = require('./exchangeFormats');
+
+// Exit codes
+const SUCCESS = 0;
+const FAILURE = 1;
+const USAGE_ERROR = 2;
+
+const USAGE = `Usage: use-translation <command> [options]
+
+Commands:
+  generate   Generate types and default translations from the default language
+  hash       Create content-hashed copies of the locale files and the manifest
+  validate   Compare every language with the default one, exit with 1 on failure
+  scan       Find keys used in the source but missing from the default
+             language (exit with 1), and keys that are never used
+  build      validate, generate and hash
+  watch      generate and hash, then update the changed namespaces on every edit
+  export <file>
+             Write a language for translators as XLIFF 2.0 (.xlf), gettext
+             (.po, or .pot for a template) or CSV (.csv)
+  import <file>
+             Merge a translated XLIFF, PO or CSV file into the locale files,
+             exit with 1 when a key can't be set
+
+Options:
+  -c, --config <path>     Config file (default: use-translation.config.{js,json})
+  -q, --quiet             Only print warnings and errors
+      --json              validate, scan: print the results as JSON
+      --fail-on <level>   validate: fail on 'error' (default) or 'warning'
+      --write             scan: add missing keys to the default language
+                          (rewrites its files with the keys sorted)
+  -l, --language <code>   export, import: target language
+      --format <format>   export, import: xliff, po, pot or csv (default: from
+                          the file extension)
+      --overwrite         import: replace translations that differ
+      --dry-run           import: report without writing
+  -h, --help              Show this help
+`;
+
+function ensureDir(filePath) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+}
+
+const COMMANDS = {
+  generate(config, { quiet }) {
+    const sourceDir = path.join(config.localesDir, config.defaultLanguage);
+    if (!fs.existsSync(sourceDir)) {
+      throw new ConfigError(
+        `Default language directory not found: ${sourceDir}`
+      );
+    }
+    ensureDir(config.typesOutput);
+    ensureDir(config.defaultTranslationsOutput);
+    generateTranslationTypes(sourceDir, config.typesOutput, {
+      ...config.types,
+      quiet,
+    });
+    generateDefaultTranslations(sourceDir, config.defaultTranslationsOutput, {
+      quiet,
+    });
+    return SUCCESS;
+  },
+
+  hash(config, { quiet }) {
+    if (!fs.existsSync(config.localesDir)) {
+      throw new ConfigError(
+        `Locales directory not found: ${config.localesDir}`
+      );
+    }
+    ensureDir(config.manifestPath);
+    ensureDir(config.tsManifestPath);
+    hashTranslations(
+      config.localesDir,
+      config.hashedDir,
+      config.manifestPath,
+      config.tsManifestPath,
+      { ...config.hash, quiet }
+    );
+    return SUCCESS;
+  },
+
+  validate(config, { quiet, json, failOn }) {
+    if (!fs.existsSync(config.localesDir)) {
+      throw new ConfigError(
+        `Locales directory not found: ${config.localesDir}`
+      );
+    }
+    const result = validateTranslations(
+      config.localesDir,
+      config.defaultLanguage,
+      {
+        ...config.validation,
+        failOn: failOn || config.validation.failOn,
+        silent: json,
+      }
+    );
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else if (!result.passed) {
+      console.error(
+        `❌ Validation failed: ${result.errors} error(s), ${result.warnings} warning(s)`
+      );
+    } else if (!quiet) {
+      console.log(`✅ Translations are valid (${result.warnings} warning(s))`);
+    }
+    return result.passed ? SUCCESS : FAILURE;
+  },
+
+  scan(config, { quiet, json, write }) {
+    const sourceDir = path.join(config.localesDir, config.defaultLanguage);
+    if (!fs.existsSync(sourceDir)) {
+      throw new ConfigError(
+        `Default language directory not found: ${sourceDir}`
+      );
+    }
+    const result = findUnusedAndMissingKeys(config.sourceDirs, sourceDir);
+    const { written, skipped } = write
+      ? writeMissingKeys(sourceDir, result.missing)
+      : { written: [], skipped: [] };
+    const isSkipped = ({ namespace, key }) =>
+      skipped.some(
+        (entry) => entry.namespace === namespace && entry.key === key
+      );
+
+    if (json) {
+      console.log(JSON.stringify({ ...result, written, skipped }, null, 2));
+    } else {
+      const relative = (file) => path.relative(process.cwd(), file);
+      for (const { namespace, key, file, line } of result.missing.filter(
+        (entry) => !isSkipped(entry)
+      )) {
+        const print = write ? console.log : console.error;
+        print(
+          `${write ? '➕' : '❌'} ${relative(file)}:${line} "${namespace}:${key}" ${
+            write ? 'added' : 'is missing'
+          }`
+        );
+      }
+      if (!quiet) {
+        for (const { namespace, key } of result.unused) {
+          console.warn(`⚠️  "${namespace}:${key}" is never used`);
+        }
+        for (const { namespace, prefix, file, line } of result.dynamic) {
+          console.log(
+            `ℹ️  ${relative(file)}:${line} dynamic key in ${namespace}${
+              prefix ? ` ("${prefix}…")` : ''
+            }`
+          );
+        }
+        console.log(
+          `🔍 ${result.missing.length} missing, ${result.unused.length} unused key(s)`
+        );
+      }
+    }
+    if (write) return skipped.length === 0 ? SUCCESS : FAILURE;
+    return result.missing.length === 0 ? SUCCESS : FAILURE;
+  },
+
+  watch(config, { quiet }) {
+    const sourceDir = path.join(config.localesDir, config.defaultLanguage);
+    if (!fs.existsSync(sourceDir)) {
+      throw new ConfigError(
+        `Default language directory not found: ${sourceDir}`
+      );
+    }
+    ensureDir(config.typesOutput);
+    ensureDir(config.defaultTranslationsOutput);
+    ensureDir(config.manifestPath);
+    ensureDir(config.tsManifestPath);
+
+    // Runs until interrupted
+    const watcher = watchTranslations(config, { quiet });
+    process.once('SIGINT', () => watcher.close());
+    return SUCCESS;
+  },
+
+  export(config, { quiet, file, language, format }) {
+    const sourceDir = path.join(config.localesDir, config.defaultLanguage);
+    if (!fs.existsSync(sourceDir)) {
+      throw new ConfigError(
+        `Default language directory not found: ${sourceDir}`
+      );
+    }
+    checkExchangeFile(file, format);
+    if ((format || detectFormat(file)) !== 'pot' && !language) {
+      throw new ConfigError('export requires --language (except for .pot)');
+    }
+    exportTranslations(
+      config.localesDir,
+      config.defaultLanguage,
+      language,
+      file,
+      { format, quiet }
+    );
+    return SUCCESS;
+  },
+
+  import(config, { quiet, json, file, language, format, overwrite, dryRun }) {
+    checkExchangeFile(file, format);
+    if (!fs.existsSync(file)) {
+      throw new ConfigError(`File not found: ${file}`);
+    }
+    const result = importTranslations(
+      config.localesDir,
+      config.defaultLanguage,
+      file,
+      { language, format, overwrite, dryRun, silent: json }
+    );
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else if (!quiet) {
+      console.log(
+        `✅ ${dryRun ? 'Would import' : 'Imported'} ${result.language}: ${
+          result.added
+        } added, ${result.updated} updated in ${result.files.length} file(s)`
+      );
+    }
+    return result.issues.some((issue) => issue.severity === 'error')
+      ? FAILURE
+      : SUCCESS;
+  },
+
+  build(config, options) {
+    for (const command of ['validate', 'generate', 'hash']) {
+      const code = COMMANDS[command](config, options);
+      if (code !== SUCCESS) return code;
+    }
+    return SUCCESS;
+  },
+};
+
+/**
+ * Checks the file argument of export and import
+ *
+ * @throws {ConfigError} When the file is missing or its format is unknown
+ */
+function checkExchangeFile(file, format) {
+  if (!file) {
+    throw new ConfigError('A file is required, e.g. translations/es.xlf');
+  }
+  if (!format && !detectFormat(file)) {
+    throw new ConfigError(
+      `Unknown format for ${file}; use .xlf, .po, .pot or .csv or pass --format`
+    );
+  }
+}
+
+/**
+ * Parses the command line arguments
+ *
+ * @param {string[]} args - Arguments after the executable and script
+ * @returns {{ command?: string, file?: string, config?: string, quiet: boolean, help: boolean, json?: boolean, failOn?: string, write?: boolean, language?: string, format?: string, overwrite?: boolean, dryRun?: boolean }}
+ * @throws {ConfigError} On unknown options
+ */
+function parseArgs(args) {
+  const options = { quiet: false, help: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-q' || arg === '--quiet') {
+      options.quiet = true;
+    } else if (arg === '-h' || arg === '--help') {
+      options.help = true;
+    } else if (arg === '-c' || arg === '--config') {
+      options.config = args[++i];
+      if (!options.config) {
+        throw new ConfigError(`${arg} requires a path`);
+      }
+    } else if (arg.startsWith('--config=')) {
+      options.config = arg.slice('--config='.length);
+    } else if (arg === '--json') {
+      options.json = true;
+    } else if (arg === '--write') {
+      options.write = true;
+    } else if (arg === '--fail-on' || arg.startsWith('--fail-on=')) {
+      options.failOn = arg.includes('=') ? arg.split('=')[1] : args[++i];
+      if (options.failOn !== 'error' && options.failOn !== 'warning') {
+        throw new ConfigError(`--fail-on must be 'error' or 'warning'`);
+      }
+    } else if (arg === '-l' || arg === '--language') {
+      options.language = args[++i];
+      if (!options.language) {
+        throw new ConfigError(`${arg} requires a language code`);
+      }
+    } else if (arg.startsWith('--language=')) {
+      options.language = arg.slice('--language='.length);
+    } else if (arg === '--format' || arg.startsWith('--format=')) {
+      options.format = arg.includes('=') ? arg.split('=')[1] : args[++i];
+      if (!['xliff', 'po', 'pot', 'csv'].includes(options.format)) {
+        throw new ConfigError(`--format must be 'xliff', 'po', 'pot' or 'csv'`);
+      }
+    } else if (arg === '--overwrite') {
+      options.overwrite = true;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg.startsWith('-')) {
+      throw new ConfigError(`Unknown option: ${arg}`);
+    } else if (!options.command) {
+      options.command = arg;
+    } else if (
+      !options.file &&
+      (options.command === 'export' || options.command === 'import')
+    ) {
+      options.file = arg;
+    } else {
+      throw new ConfigError(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Runs the CLI
+ *
+ * @param {string[]} args - Arguments after the executable and script
+ * @param {string} [cwd] - Working directory
+ * @returns {number} Exit code: 0 on success, 1 when a command fails,
+ *   2 for usage and config errors
+ */
+function run(args, cwd = process.cwd()) {
+  let options;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error(`❌ ${error.message}\n\n${USAGE}`);
+    return USAGE_ERROR;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return SUCCESS;
+  }
+  if (!Object.prototype.hasOwnProperty.call(COMMANDS, options.command)) {
+    console.error(
+      options.command
+        ? `❌ Unknown command: ${options.command}\n\n${USAGE}`
+        : USAGE
+    );
+    return USAGE_ERROR;
+  }
+
+  if (options.file) {
+    options.file = path.resolve(cwd, options.file);
+  }
+
+  try {
+    const config = loadConfig(cwd, options.config);
+    return COMMANDS[options.command](config, options);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      return USAGE_ERROR;
+    }
+    console.error(`❌ ${options.command} failed:`, error);
+    return FAILURE;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = run(process.argv.slice(2));
+}
+
+module.exports = {
+  run,
+};
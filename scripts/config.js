@@ -0,0 +1,141 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const fs = require('fs');
+const path = require('path');
+const { normalizeBundles } = require('./hashTranslations');
+
+const CONFIG_FILES = [
+  'use-translation.config.js',
+  'use-translation.config.json',
+];
+
+const DEFAULT_CONFIG = {
+  localesDir: 'public/locales',
+  defaultLanguage: 'en',
+  typesOutput: 'src/types/translations.ts',
+  defaultTranslationsOutput: 'src/translations/defaultTranslations.ts',
+  hashedDir: 'public/locales-hashed',
+  // Defaults to <hashedDir>/manifest.json
+  manifestPath: undefined,
+  tsManifestPath: 'src/translations/translationManifest.ts',
+  // Options for validateTranslations: { severity, failOn }
+  validation: {},
+  // Options for hashTranslations: { keep, algorithm, length }
+  hash: {},
+  // Options for generateTranslationTypes: { split }
+  types: {},
+  // Directories scanned for translation keys
+  sourceDirs: ['src'],
+};
+
+const PATH_OPTIONS = [
+  'localesDir',
+  'typesOutput',
+  'defaultTranslationsOutput',
+  'hashedDir',
+  'manifestPath',
+  'tsManifestPath',
+];
+
+/**
+ * Error in the config file or the command line, reported without a stack trace
+ */
+class ConfigError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Loads use-translation.config.js or use-translation.config.json
+ * Paths in the config are relative to the config file; without a config
+ * file the defaults are relative to cwd
+ *
+ * @param {string} cwd - Directory to look for the config file in
+ * @param {string} [configPath] - Explicit config file path
+ * @returns {{ configPath: string | undefined, localesDir: string, defaultLanguage: string, typesOutput: string, defaultTranslationsOutput: string, hashedDir: string, manifestPath: string, tsManifestPath: string, validation: object, hash: object, types: object, sourceDirs: string[] }}
+ *   Config with absolute paths
+ * @throws {ConfigError} When the config file can't be read or is invalid
+ */
+function loadConfig(cwd, configPath) {
+  let file;
+  if (configPath) {
+    file = path.resolve(cwd, configPath);
+    if (!fs.existsSync(file)) {
+      throw new ConfigError(`Config file not found: ${file}`);
+    }
+  } else {
+    file = CONFIG_FILES.map((name) => path.join(cwd, name)).find((candidate) =>
+      fs.existsSync(candidate)
+    );
+  }
+
+  let userConfig = {};
+  if (file) {
+    try {
+      userConfig = file.endsWith('.json')
+        ? JSON.parse(fs.readFileSync(file, 'utf8'))
+        : require(file);
+    } catch (error) {
+      throw new ConfigError(`Failed to load ${file}: ${error.message}`);
+    }
+    if (typeof userConfig !== 'object' || userConfig === null) {
+      throw new ConfigError(`${file} must export an object`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(userConfig)) {
+    if (!Object.prototype.hasOwnProperty.call(DEFAULT_CONFIG, key)) {
+      console.warn(`⚠️  Unknown config option "${key}" in ${file}`);
+    } else if (key === 'sourceDirs') {
+      if (
+        !Array.isArray(value) ||
+        value.some((dir) => typeof dir !== 'string')
+      ) {
+        throw new ConfigError(
+          `Config option "${key}" must be an array of strings`
+        );
+      }
+    } else if (typeof DEFAULT_CONFIG[key] === 'object') {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ConfigError(`Config option "${key}" must be an object`);
+      }
+    } else if (key === 'manifestPath') {
+      // Defaults to manifest.json in hashedDir
+      if (value !== undefined && typeof value !== 'string') {
+        throw new ConfigError(`Config option "${key}" must be a string`);
+      }
+    } else if (typeof value !== typeof DEFAULT_CONFIG[key]) {
+      throw new ConfigError(`Config option "${key}" must be a string`);
+    }
+  }
+
+  const baseDir = file ? path.dirname(file) : cwd;
+  const config = { ...DEFAULT_CONFIG, ...userConfig, configPath: file };
+  for (const key of PATH_OPTIONS) {
+    if (config[key] !== undefined) {
+      config[key] = path.resolve(baseDir, config[key]);
+    }
+  }
+  config.sourceDirs = config.sourceDirs.map((dir) =>
+    path.resolve(baseDir, dir)
+  );
+  config.manifestPath =
+    config.manifestPath || path.join(config.hashedDir, 'manifest.json');
+
+  if (config.hash.bundles) {
+    try {
+      normalizeBundles(config.hash.bundles);
+    } catch (error) {
+      throw new ConfigError(error.message);
+    }
+  }
+
+  return config;
+}
+
+module.exports = {
+  loadConfig,
+  ConfigError,
+  DEFAULT_CONFIG,
+};
@@ -0,0 +1,500 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const path = require('path');
+const { getGettextPluralForms, getPluralCategories } = require('./plurals');
+
+/**
+ * Translator exchange formats: XLIFF 2.0, gettext PO/POT and CSV
+ *
+ * Every format is converted to and from the same document:
+ * { sourceLanguage, targetLanguage, units: [{ namespace, key, source, target, notes, plural, fuzzy }] }
+ * where key is the dot-notation key, including the plural suffix of a
+ * plural variant (items_few), and plural is the category of a cardinal
+ * variant. Only PO files mark entries fuzzy.
+ */
+
+const EXTENSIONS = {
+  '.xlf': 'xliff',
+  '.xliff': 'xliff',
+  '.po': 'po',
+  '.pot': 'pot',
+  '.csv': 'csv',
+};
+
+/**
+ * Picks the format of a file from its extension
+ *
+ * @param {string} filePath - File to read or write
+ * @returns {'xliff' | 'po' | 'pot' | 'csv' | undefined} Format, if recognized
+ */
+function detectFormat(filePath) {
+  return EXTENSIONS[path.extname(filePath).toLowerCase()];
+}
+
+// XLIFF 2.0
+
+const XML_ENTITIES = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+function escapeXml(text) {
+  return text.replace(/[&<>"']/g, (char) => XML_ENTITIES[char]);
+}
+
+function unescapeXml(text) {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name) => {
+    if (name[0] === '#') {
+      return String.fromCodePoint(
+        name[1].toLowerCase() === 'x'
+          ? parseInt(name.slice(2), 16)
+          : Number(name.slice(1))
+      );
+    }
+    const char = Object.keys(XML_ENTITIES).find(
+      (key) => XML_ENTITIES[key] === `&${name};`
+    );
+    return char ?? entity;
+  });
+}
+
+function getAttribute(tag, name) {
+  const match = new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(
+    tag
+  );
+  return match ? unescapeXml(match[2] ?? match[3]) : undefined;
+}
+
+// Element text with inline markup removed, or undefined when it's missing
+function getElementText(xml, name) {
+  const match = new RegExp(
+    `<${name}\\b[^>]*?(?:/>|>([\\s\\S]*?)</${name}>)`
+  ).exec(xml);
+  if (!match) return undefined;
+  // CDATA sections are taken as is; elements elsewhere are dropped
+  return (match[1] ?? '')
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) =>
+      part.startsWith('<![CDATA[')
+        ? part.slice(9, -3)
+        : unescapeXml(part.replace(/<[^>]+>/g, ''))
+    )
+    .join('');
+}
+
+// Ids are NMTOKENs, so keys with other characters get a generated id
+function xliffId(name, index, prefix) {
+  return /^[\w.:-]+$/.test(name) ? name : `${prefix}${index + 1}`;
+}
+
+function serializeXliff({ sourceLanguage, targetLanguage, units }) {
+  let output = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  output += `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(sourceLanguage)}"${
+    targetLanguage ? ` trgLang="${escapeXml(targetLanguage)}"` : ''
+  }>\n`;
+
+  const namespaces = [...new Set(units.map((unit) => unit.namespace))];
+  namespaces.forEach((namespace, fileIndex) => {
+    output += `  <file id="${escapeXml(xliffId(namespace, fileIndex, 'f'))}" original="${escapeXml(namespace)}.json">\n`;
+
+    units
+      .filter((unit) => unit.namespace === namespace)
+      .forEach((unit, index) => {
+        output += `    <unit id="${escapeXml(xliffId(unit.key, index, 'u'))}" name="${escapeXml(unit.key)}">\n`;
+        if (unit.notes.length > 0) {
+          output += `      <notes>\n`;
+          for (const note of unit.notes) {
+            output += `        <note>${escapeXml(note)}</note>\n`;
+          }
+          output += `      </notes>\n`;
+        }
+        output += `      <segment state="${unit.target ? 'translated' : 'initial'}">\n`;
+        output += `        <source xml:space="preserve">${escapeXml(unit.source)}</source>\n`;
+        if (targetLanguage) {
+          output += `        <target xml:space="preserve">${escapeXml(unit.target ?? '')}</target>\n`;
+        }
+        output += `      </segment>\n`;
+        output += `    </unit>\n`;
+      });
+
+    output += `  </file>\n`;
+  });
+
+  output += `</xliff>\n`;
+  return output;
+}
+
+function parseXliff(text) {
+  const root = /<xliff\b[^>]*>/.exec(text);
+  if (!root || getAttribute(root[0], 'version') !== '2.0') {
+    throw new Error('Not an XLIFF 2.0 document');
+  }
+
+  const units = [];
+  for (const file of text.matchAll(/<file\b([^>]*)>([\s\S]*?)<\/file>/g)) {
+    const original = getAttribute(file[1], 'original');
+    const namespace = original
+      ? original.replace(/\.json$/, '')
+      : getAttribute(file[1], 'id');
+
+    for (const unit of file[2].matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)) {
+      const notes = [...unit[2].matchAll(/<note\b[^>]*>([\s\S]*?)<\/note>/g)];
+      units.push({
+        namespace,
+        key: getAttribute(unit[1], 'name') ?? getAttribute(unit[1], 'id'),
+        source: getElementText(unit[2], 'source') ?? '',
+        target: getElementText(unit[2], 'target'),
+        notes: notes.map((note) => unescapeXml(note[1])),
+        fuzzy: false,
+      });
+    }
+  }
+
+  return {
+    sourceLanguage: getAttribute(root[0], 'srcLang'),
+    targetLanguage: getAttribute(root[0], 'trgLang'),
+    units,
+  };
+}
+
+// gettext PO/POT
+// Cardinal plural variants become one msgid_plural entry, with msgstr[i]
+// holding the i-th category of the language and a matching Plural-Forms
+// header. Ordinal variants, and all variants of a language without a
+// gettext formula, are separate entries (msgctxt "common:place_ordinal_few").
+
+function quotePo(text) {
+  const escaped = (value) =>
+    `"${value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\t/g, '\\t')
+      .replace(/\r/g, '\\r')
+      .replace(/\n/g, '\\n')}"`;
+
+  const lines = text.split(/(?<=\n)/);
+  if (lines.length <= 1) return escaped(text);
+  return `""\n${lines.map(escaped).join('\n')}`;
+}
+
+function unquotePo(text) {
+  return text
+    .slice(1, -1)
+    .replace(/\\(.)/g, (_, char) =>
+      char === 'n' ? '\n' : char === 't' ? '\t' : char === 'r' ? '\r' : char
+    );
+}
+
+// Folds the cardinal variants of each plural key into one entry
+function groupPoEntries(units, forms) {
+  const entries = [];
+  for (const unit of units) {
+    const base =
+      forms && unit.plural ? unit.key.slice(0, -unit.plural.length - 1) : '';
+    const last = entries[entries.length - 1];
+    if (
+      base &&
+      last?.variants &&
+      last.namespace === unit.namespace &&
+      last.key === base
+    ) {
+      last.variants[unit.plural] = unit;
+    } else if (base) {
+      entries.push({
+        namespace: unit.namespace,
+        key: base,
+        variants: { [unit.plural]: unit },
+      });
+    } else {
+      entries.push(unit);
+    }
+  }
+  return entries;
+}
+
+function serializePo({ sourceLanguage, targetLanguage, units }, template) {
+  const forms = getGettextPluralForms(
+    template ? sourceLanguage : (targetLanguage ?? sourceLanguage)
+  );
+  const headers = [
+    `Language: ${template ? '' : targetLanguage}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+    ...(forms
+      ? [`Plural-Forms: nplurals=${forms.nplurals}; plural=${forms.plural};`]
+      : []),
+    `X-Source-Language: ${sourceLanguage}`,
+    'X-Generator: use-translation',
+  ];
+  let output = `msgid ""\nmsgstr ""\n`;
+  output += headers.map((header) => `"${header}\\n"`).join('\n');
+  output += '\n';
+
+  for (const entry of groupPoEntries(units, forms)) {
+    const variants = entry.variants && Object.values(entry.variants);
+    // The plural form notes are implied by the msgstr indexes
+    const notes = variants
+      ? [
+          ...new Set(
+            variants.flatMap((unit) =>
+              unit.notes.filter(
+                (note) => note !== `Plural form: ${unit.plural}`
+              )
+            )
+          ),
+        ]
+      : entry.notes;
+
+    output += '\n';
+    for (const note of notes) {
+      output += `#. ${note.replace(/\n/g, '\n#. ')}\n`;
+    }
+    output += `#: ${entry.namespace}.json\n`;
+    output += `msgctxt ${quotePo(`${entry.namespace}:${entry.key}`)}\n`;
+    if (variants) {
+      const { one, other } = entry.variants;
+      output += `msgid ${quotePo((one ?? variants[0]).source)}\n`;
+      output += `msgid_plural ${quotePo((other ?? variants[variants.length - 1]).source)}\n`;
+      forms.categories.forEach((category, index) => {
+        const target = template ? '' : entry.variants[category]?.target;
+        output += `msgstr[${index}] ${quotePo(target ?? '')}\n`;
+      });
+    } else {
+      output += `msgid ${quotePo(entry.source)}\n`;
+      output += `msgstr ${quotePo(template ? '' : (entry.target ?? ''))}\n`;
+    }
+  }
+
+  return output;
+}
+
+function parsePo(text) {
+  const entries = [];
+  let entry = { notes: [], flags: [] };
+  let field;
+
+  const finish = () => {
+    if (entry.msgid !== undefined) entries.push(entry);
+    entry = { notes: [], flags: [] };
+    field = undefined;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '') {
+      finish();
+    } else if (line.startsWith('#~')) {
+      // Obsolete entry
+    } else if (line.startsWith('#.')) {
+      entry.notes.push(line.slice(2).trim());
+    } else if (line.startsWith('#,')) {
+      entry.flags.push(
+        ...line
+          .slice(2)
+          .split(',')
+          .map((flag) => flag.trim())
+      );
+    } else if (line.startsWith('#')) {
+      // Translator comments and references
+    } else if (line.startsWith('"')) {
+      if (field) entry[field] += unquotePo(line);
+    } else {
+      const match =
+        /^(msgctxt|msgid|msgid_plural|msgstr(?:\[\d+\])?)\s+(".*")$/.exec(line);
+      if (!match) throw new Error(`Invalid PO line: ${rawLine}`);
+      // A new msgctxt or msgid without a blank line starts a new entry
+      if (
+        (match[1] === 'msgctxt' ||
+          (match[1] === 'msgid' && entry.msgctxt === undefined)) &&
+        entry.msgid !== undefined
+      ) {
+        finish();
+      }
+      field = match[1];
+      entry[field] = unquotePo(match[2]);
+    }
+  }
+  finish();
+
+  let targetLanguage;
+  let sourceLanguage;
+  const units = [];
+  for (const entry of entries) {
+    const { msgctxt, msgid, msgstr, notes, flags } = entry;
+    if (msgctxt === undefined && msgid === '') {
+      targetLanguage = /^Language:[ \t]*(\S*)/m.exec(msgstr)?.[1] || undefined;
+      sourceLanguage =
+        /^X-Source-Language:[ \t]*(\S*)/m.exec(msgstr)?.[1] || undefined;
+      continue;
+    }
+    const separator = (msgctxt ?? '').indexOf(':');
+    const unit = {
+      namespace: separator === -1 ? undefined : msgctxt.slice(0, separator),
+      key: separator === -1 ? msgid : msgctxt.slice(separator + 1),
+      source: msgid,
+      target: msgstr,
+      notes,
+      fuzzy: flags.includes('fuzzy'),
+    };
+    if (entry.msgid_plural === undefined) {
+      units.push(unit);
+      continue;
+    }
+
+    // msgstr[i] is the i-th category of the language, as in serializePo
+    const language = targetLanguage ?? sourceLanguage;
+    const categories = language
+      ? (getGettextPluralForms(language)?.categories ??
+        getPluralCategories(language))
+      : ['one', 'other'];
+    categories.forEach((category, index) => {
+      units.push({
+        ...unit,
+        key: `${unit.key}_${category}`,
+        source: category === 'one' ? msgid : entry.msgid_plural,
+        target: entry[`msgstr[${index}]`],
+        plural: category,
+      });
+    });
+  }
+
+  return { sourceLanguage, targetLanguage, units };
+}
+
+// CSV (RFC 4180): namespace,key,<source language>,<target language>,notes
+
+function quoteCsv(value) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function serializeCsv({ sourceLanguage, targetLanguage, units }) {
+  const columns = targetLanguage
+    ? ['namespace', 'key', sourceLanguage, targetLanguage, 'notes']
+    : ['namespace', 'key', sourceLanguage, 'notes'];
+  const rows = [columns];
+  for (const unit of units) {
+    const notes = unit.notes.join('\n');
+    rows.push(
+      targetLanguage
+        ? [unit.namespace, unit.key, unit.source, unit.target ?? '', notes]
+        : [unit.namespace, unit.key, unit.source, notes]
+    );
+  }
+  // The byte order mark makes Excel read the file as UTF-8
+  return `\uFEFF${rows.map((row) => row.map(quoteCsv).join(',')).join('\r\n')}\r\n`;
+}
+
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let value = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  if (quoted) throw new Error('Unterminated quoted CSV field');
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter(
+    (record) => record.length > 1 || record[0] !== ''
+  );
+  if (!header || header[0] !== 'namespace' || header[1] !== 'key') {
+    throw new Error('CSV must start with a namespace,key,... header');
+  }
+  const hasTarget = header.length >= 5;
+
+  return {
+    sourceLanguage: header[2],
+    targetLanguage: hasTarget ? header[3] : undefined,
+    units: records.map((record) => ({
+      namespace: record[0],
+      key: record[1],
+      source: record[2] ?? '',
+      target: hasTarget ? record[3] : undefined,
+      notes: (record[hasTarget ? 4 : 3] ?? '').split('\n').filter(Boolean),
+      fuzzy: false,
+    })),
+  };
+}
+
+/**
+ * Writes a document in one of the exchange formats
+ *
+ * @param {'xliff' | 'po' | 'pot' | 'csv'} format - Output format; 'pot' leaves
+ *   out the targets
+ * @param {{ sourceLanguage: string, targetLanguage?: string, units: Array<{ namespace: string, key: string, source: string, target?: string, notes: string[], plural?: string }> }} document
+ * @returns {string} File contents
+ */
+function serializeExchange(format, document) {
+  switch (format) {
+    case 'xliff':
+      return serializeXliff(document);
+    case 'po':
+      return serializePo(document, false);
+    case 'pot':
+      return serializePo(document, true);
+    case 'csv':
+      return serializeCsv(document);
+    default:
+      throw new Error(`Unknown exchange format: ${format}`);
+  }
+}
+
+/**
+ * Reads a document in one of the exchange formats
+ *
+ * @param {'xliff' | 'po' | 'pot' | 'csv'} format - Input format
+ * @param {string} text - File contents
+ * @returns {{ sourceLanguage?: string, targetLanguage?: string, units: Array<{ namespace?: string, key: string, source: string, target?: string, notes: string[], plural?: string, fuzzy: boolean }> }}
+ * @throws When the file isn't valid in that format
+ */
+function parseExchange(format, text) {
+  switch (format) {
+    case 'xliff':
+      return parseXliff(text);
+    case 'po':
+    case 'pot':
+      return parsePo(text);
+    case 'csv':
+      return parseCsv(text);
+    default:
+      throw new Error(`Unknown exchange format: ${format}`);
+  }
+}
+
+module.exports = {
+  detectFormat,
+  serializeExchange,
+  parseExchange,
+};
@@ -0,0 +1,517 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const fs = require('fs');
+const path = require('path');
+const {
+  PLURAL_CATEGORIES,
+  PLURAL_SUFFIX,
+  getPluralCategories,
+  groupPluralKeys,
+} = require('./plurals');
+const { extractPlaceholders, extractTags } = require('./translationTypes');
+const {
+  detectFormat,
+  serializeExchange,
+  parseExchange,
+} = require('./exchangeFormats');
+const { writeFileIfChanged } = require('./fileUtils');
+
+function isObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Objects and arrays, whose children are addressed by key or index
+function isContainer(value) {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Lists the keys of an object in order, with every plural group expanded to
+ * all the categories it could have, at the position of its first variant
+ */
+function getReferenceOrder(reference) {
+  const groups = groupPluralKeys(reference);
+  const order = [];
+  const expanded = new Set();
+
+  for (const key of Object.keys(reference)) {
+    const match = PLURAL_SUFFIX.exec(key);
+    const base = match && groups[match[1]] ? match[1] : undefined;
+    if (!base) {
+      order.push(key);
+    } else if (!expanded.has(base)) {
+      expanded.add(base);
+      for (const prefix of ['', 'ordinal_']) {
+        for (const category of PLURAL_CATEGORIES) {
+          order.push(`${base}_${prefix}${category}`);
+        }
+      }
+    }
+  }
+  return order;
+}
+
+/**
+ * Walks the default language in order and calls fn for every string, with
+ * plural groups expanded to the categories of the target language. Array
+ * items get index keys (faq.0.question); other values are passed to onSkip.
+ */
+function forEachUnit(reference, language, prefix, fn, onSkip) {
+  const groups = groupPluralKeys(reference);
+  const done = new Set();
+
+  for (const [key, value] of Object.entries(reference)) {
+    const fullKey = (name) => (prefix ? `${prefix}.${name}` : name);
+    const match = PLURAL_SUFFIX.exec(key);
+    const base = match && groups[match[1]] ? match[1] : undefined;
+
+    if (base) {
+      if (done.has(base)) continue;
+      done.add(base);
+      for (const [type, infix] of [
+        ['cardinal', ''],
+        ['ordinal', 'ordinal_'],
+      ]) {
+        if (groups[base][type].length === 0) continue;
+        for (const category of getPluralCategories(language, type)) {
+          const variant = `${base}_${infix}${category}`;
+          fn(
+            fullKey(variant),
+            reference[variant] ?? reference[`${base}_${infix}other`],
+            {
+              plural: `${type === 'ordinal' ? 'Ordinal plural' : 'Plural'} form: ${category}`,
+              category: type === 'cardinal' ? category : undefined,
+            }
+          );
+        }
+      }
+    } else if (isContainer(value)) {
+      forEachUnit(value, language, fullKey(key), fn, onSkip);
+    } else if (typeof value === 'string') {
+      fn(fullKey(key), value, {});
+    } else {
+      onSkip(fullKey(key), value);
+    }
+  }
+}
+
+function getPath(obj, key) {
+  return key
+    .split('.')
+    .reduce(
+      (current, part) => (isContainer(current) ? current[part] : undefined),
+      obj
+    );
+}
+
+function readJson(filePath) {
+  return fs.existsSync(filePath)
+    ? JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    : undefined;
+}
+
+function listNamespaces(dir) {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => path.basename(file, '.json'))
+    .sort();
+}
+
+/**
+ * Exports translations for translators, with namespaces flattened to
+ * dot-notation keys
+ *
+ * Every string of the default language becomes one unit with its source
+ * text, the target text (when the language has one) and notes listing its
+ * variables, tags and plural form. Plural keys get one unit per category
+ * the target language needs (e.g. items_few and items_many for Polish), and
+ * array items get index keys (e.g. faq.0.question).
+ *
+ * @param {string} localesDir - Path to the locales directory (e.g., 'public/locales')
+ * @param {string} defaultLanguage - Source language
+ * @param {string | undefined} language - Target language; not needed for POT
+ * @param {string} outputPath - .xlf/.xliff, .po, .pot or .csv file
+ * @param {{ format?: 'xliff' | 'po' | 'pot' | 'csv', quiet?: boolean }} [options] -
+ *   `format` overrides the one of the extension
+ * @returns {number} Number of units written
+ *
+ * @example
+ * exportTranslations('public/locales', 'en', 'pl', 'translations/pl.xlf');
+ */
+function exportTranslations(
+  localesDir,
+  defaultLanguage,
+  language,
+  outputPath,
+  { format = detectFormat(outputPath), quiet = false } = {}
+) {
+  if (!format) {
+    throw new Error(
+      `Unknown format for ${outputPath}; use .xlf, .po, .pot or .csv`
+    );
+  }
+  const template = format === 'pot';
+  const targetLanguage =
+    template || language === defaultLanguage ? undefined : language;
+  if (!template && !language) {
+    throw new Error(`A target language is required for ${format} files`);
+  }
+
+  const sourceDir = path.join(localesDir, defaultLanguage);
+  const units = [];
+  for (const namespace of listNamespaces(sourceDir)) {
+    const reference = readJson(path.join(sourceDir, `${namespace}.json`));
+    const translations = targetLanguage
+      ? readJson(path.join(localesDir, targetLanguage, `${namespace}.json`))
+      : undefined;
+
+    forEachUnit(
+      reference,
+      targetLanguage ?? defaultLanguage,
+      '',
+      (key, source, { plural, category }) => {
+        const notes = [];
+        if (plural) notes.push(plural);
+        const variables = Object.keys(extractPlaceholders(source));
+        if (variables.length > 0) {
+          notes.push(`Variables: ${variables.join(', ')}`);
+        }
+        const tags = extractTags(source);
+        if (tags.length > 0) {
+          notes.push(`Tags: ${tags.map((tag) => `<${tag}>`).join(', ')}`);
+        }
+
+        const target = translations ? getPath(translations, key) : undefined;
+        units.push({
+          namespace,
+          key,
+          source,
+          target: typeof target === 'string' ? target : undefined,
+          notes,
+          plural: category,
+        });
+      },
+      (key, value) => {
+        if (!quiet) {
+          console.warn(
+            `⚠️  Skipped "${namespace}:${key}": ${JSON.stringify(value)} isn't a string`
+          );
+        }
+      }
+    );
+  }
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  writeFileIfChanged(
+    outputPath,
+    serializeExchange(format, {
+      sourceLanguage: defaultLanguage,
+      targetLanguage,
+      units,
+    })
+  );
+  if (!quiet) {
+    console.log(`✅ Exported ${units.length} strings to ${outputPath}`);
+  }
+  return units.length;
+}
+
+/**
+ * Sets a dot-notation key, keeping the order of the existing keys and
+ * placing new ones after their predecessor in the default language
+ * Arrays only grow as far as the index being set; earlier items that
+ * aren't translated yet are null, never copied from the default language.
+ *
+ * @returns {object} The updated object (a new one when a key was added)
+ */
+function setOrdered(target, reference, parts, value) {
+  const [part, ...rest] = parts;
+  const child = () => {
+    if (isContainer(target[part])) return target[part];
+    return Array.isArray(reference?.[part]) ? [] : {};
+  };
+  const next =
+    rest.length === 0
+      ? value
+      : setOrdered(
+          child(),
+          isContainer(reference?.[part]) ? reference[part] : {},
+          rest,
+          value
+        );
+
+  if (Array.isArray(target)) {
+    for (let index = target.length; index < Number(part); index++) {
+      target[index] = null;
+    }
+  }
+  if (part in target || Array.isArray(target)) {
+    target[part] = next;
+    return target;
+  }
+
+  const order = getReferenceOrder(reference ?? {});
+  const entries = Object.entries(target);
+  let position = order.includes(part) ? 0 : entries.length;
+  for (let i = order.indexOf(part) - 1; i >= 0; i--) {
+    const index = entries.findIndex(([key]) => key === order[i]);
+    if (index !== -1) {
+      position = index + 1;
+      break;
+    }
+  }
+  entries.splice(position, 0, [part, next]);
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Checks whether the default language knows a key; a plural variant is
+ * known when the default language has the plural key and the target
+ * language uses that category
+ */
+function isKnownKey(reference, key, language) {
+  const parts = key.split('.');
+  const match = PLURAL_SUFFIX.exec(parts.pop());
+  const parent =
+    parts.length > 0 ? getPath(reference, parts.join('.')) : reference;
+  const group = match && isObject(parent) && groupPluralKeys(parent)[match[1]];
+  if (group) {
+    const type = match[2] ? 'ordinal' : 'cardinal';
+    return (
+      group[type].length > 0 &&
+      getPluralCategories(language, type).includes(match[3])
+    );
+  }
+  return typeof getPath(reference, key) === 'string';
+}
+
+function detectIndent(text) {
+  return /^([ \t]+)"/m.exec(text)?.[1] ?? 2;
+}
+
+/**
+ * Imports a translated XLIFF, PO or CSV file back into the nested JSON files
+ *
+ * Existing keys keep their order, and new ones are placed like in the
+ * default language. Reported issues:
+ * - unknown-namespace, unknown-key: the default language doesn't have it
+ * - conflict: the file has a different translation than the JSON; the JSON
+ *   one is kept unless `overwrite` is set
+ * - source-changed: the source text changed since the export
+ * - duplicate: the same key appears more than once (the last one wins)
+ * - fuzzy: a PO entry marked fuzzy, which is skipped
+ * - invalid-path: a key whose parent is a string in the target file (an error)
+ *
+ * @param {string} localesDir - Path to the locales directory (e.g., 'public/locales')
+ * @param {string} defaultLanguage - Language the keys are checked against
+ * @param {string} inputPath - .xlf/.xliff, .po or .csv file
+ * @param {object} [options]
+ * @param {string} [options.language] - Target language, when the file doesn't say
+ * @param {'xliff' | 'po' | 'csv'} [options.format] - Overrides the one of the extension
+ * @param {boolean} [options.overwrite] - Replace existing translations that differ
+ * @param {boolean} [options.dryRun] - Report without writing
+ * @param {boolean} [options.silent] - Don't print the issues
+ * @returns {{ language: string, added: number, updated: number, files: string[], issues: Array<{ severity: string, code: string, language: string, namespace: string, key: string, file: string, message: string }> }}
+ */
+function importTranslations(
+  localesDir,
+  defaultLanguage,
+  inputPath,
+  {
+    language: languageOption,
+    format = detectFormat(inputPath),
+    overwrite = false,
+    dryRun = false,
+    silent = false,
+  } = {}
+) {
+  if (!format) {
+    throw new Error(
+      `Unknown format for ${inputPath}; use .xlf, .po, .pot or .csv`
+    );
+  }
+  const document = parseExchange(format, fs.readFileSync(inputPath, 'utf8'));
+
+  const language = document.targetLanguage || languageOption;
+  if (!language) {
+    throw new Error(`${inputPath} doesn't name its language; pass one`);
+  }
+  if (languageOption && languageOption !== language) {
+    throw new Error(
+      `${inputPath} is for "${language}", not "${languageOption}"`
+    );
+  }
+  if (language === defaultLanguage) {
+    throw new Error(
+      `Can't import into the default language (${defaultLanguage})`
+    );
+  }
+
+  const issues = [];
+  const report = (severity, code, unit, message) =>
+    issues.push({
+      severity,
+      code,
+      language,
+      namespace: unit.namespace,
+      key: unit.key,
+      file: inputPath,
+      message,
+    });
+
+  // Last unit per key
+  const updates = new Map();
+  for (const unit of document.units) {
+    if (unit.target === undefined || unit.target === '') continue;
+    if (unit.fuzzy) {
+      report(
+        'warning',
+        'fuzzy',
+        unit,
+        `"${unit.namespace}:${unit.key}" is fuzzy and was skipped`
+      );
+      continue;
+    }
+    const id = `${unit.namespace}:${unit.key}`;
+    if (updates.has(id)) {
+      report(
+        'warning',
+        'duplicate',
+        unit,
+        `"${unit.namespace}:${unit.key}" appears more than once`
+      );
+    }
+    updates.set(id, unit);
+  }
+
+  const sourceDir = path.join(localesDir, defaultLanguage);
+  const targetDir = path.join(localesDir, language);
+  const byNamespace = {};
+  for (const unit of updates.values()) {
+    (byNamespace[unit.namespace] = byNamespace[unit.namespace] || []).push(
+      unit
+    );
+  }
+
+  let added = 0;
+  let updated = 0;
+  const files = [];
+
+  for (const [namespace, units] of Object.entries(byNamespace)) {
+    const reference = namespace
+      ? readJson(path.join(sourceDir, `${namespace}.json`))
+      : undefined;
+    if (!reference) {
+      for (const unit of units) {
+        report(
+          'warning',
+          'unknown-namespace',
+          unit,
+          `Namespace "${namespace}" doesn't exist in ${defaultLanguage}`
+        );
+      }
+      continue;
+    }
+
+    const filePath = path.join(targetDir, `${namespace}.json`);
+    const text = fs.existsSync(filePath)
+      ? fs.readFileSync(filePath, 'utf8')
+      : undefined;
+    let translations = text === undefined ? {} : JSON.parse(text);
+    let changed = false;
+
+    for (const unit of units) {
+      if (!isKnownKey(reference, unit.key, language)) {
+        report(
+          'warning',
+          'unknown-key',
+          unit,
+          `"${unit.namespace}:${unit.key}" doesn't exist in ${defaultLanguage}/${namespace}`
+        );
+        continue;
+      }
+
+      const parts = unit.key.split('.');
+      const blocked = parts.slice(0, -1).some((_, index) => {
+        const value = getPath(
+          translations,
+          parts.slice(0, index + 1).join('.')
+        );
+        return value !== undefined && !isContainer(value);
+      });
+      if (blocked) {
+        report(
+          'error',
+          'invalid-path',
+          unit,
+          `"${unit.namespace}:${unit.key}" can't be set: a parent key is a string in ${language}/${namespace}`
+        );
+        continue;
+      }
+
+      const currentSource = getPath(reference, unit.key);
+      if (
+        unit.source &&
+        typeof currentSource === 'string' &&
+        unit.source !== currentSource
+      ) {
+        report(
+          'warning',
+          'source-changed',
+          unit,
+          `"${unit.namespace}:${unit.key}" was translated from an older source text`
+        );
+      }
+
+      const existing = getPath(translations, unit.key);
+      if (existing === unit.target) continue;
+      if (typeof existing === 'string' && existing !== '') {
+        report(
+          'warning',
+          'conflict',
+          unit,
+          `"${unit.namespace}:${unit.key}" differs from ${language}/${namespace}${
+            overwrite ? '' : '; kept the existing translation'
+          }`
+        );
+        if (!overwrite) continue;
+        updated++;
+      } else {
+        added++;
+      }
+      translations = setOrdered(translations, reference, parts, unit.target);
+      changed = true;
+    }
+
+    if (changed) {
+      files.push(filePath);
+      if (!dryRun) {
+        fs.mkdirSync(targetDir, { recursive: true });
+        const trailingNewline = text === undefined || text.endsWith('\n');
+        writeFileIfChanged(
+          filePath,
+          `${JSON.stringify(translations, null, text ? detectIndent(text) : 2)}${
+            trailingNewline ? '\n' : ''
+          }`
+        );
+      }
+    }
+  }
+
+  if (!silent) {
+    for (const issue of issues) {
+      const print = issue.severity === 'error' ? console.error : console.warn;
+      print(
+        `${issue.severity === 'error' ? '❌' : '⚠️ '} ${path.relative(process.cwd(), issue.file)} ${issue.message} [${issue.code}]`
+      );
+    }
+  }
+
+  return { language, added, updated, files, issues };
+}
+
+module.exports = {
+  exportTranslations,
+  importTranslations,
+  setOrdered,
+};
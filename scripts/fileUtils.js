@@ -0,0 +1,48 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Writes a file through a temporary file in the same directory and renames
+ * it into place, so watchers (like Next's dev server) never read a
+ * half-written file
+ *
+ * @param {string} filePath - Destination
+ * @param {string | Buffer} content - File contents
+ */
+function writeFileAtomic(filePath, content) {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.tmp`
+  );
+  try {
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Writes a file atomically unless it already has the same contents, so
+ * unchanged outputs keep their modification time
+ *
+ * @param {string} filePath - Destination
+ * @param {string | Buffer} content - File contents
+ * @returns {boolean} Whether the file was written
+ */
+function writeFileIfChanged(filePath, content) {
+  try {
+    if (fs.readFileSync(filePath).equals(Buffer.from(content))) return false;
+  } catch {
+    // Doesn't exist yet
+  }
+  writeFileAtomic(filePath, content);
+  return true;
+}
+
+module.exports = {
+  writeFileAtomic,
+  writeFileIfChanged,
+};
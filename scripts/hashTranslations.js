@@ -2,126 +2,331 @@
 const fs = require('fs');
 const path = require('path');
 const crypto = require('crypto');
+const { writeFileIfChanged } = require('./fileUtils');
+
+const HISTORY_FILE = '.manifest-history.json';
 
 /**
  * Creates content-based hashed copies of translation files
  * This enables long-term caching with automatic cache invalidation
  *
+ * Hashed files of earlier builds are kept while any of the last `keep`
+ * manifests refers to them, so clients still running a previous deploy
+ * don't get 404s. The manifests are sorted and have no timestamp, so they
+ * only change when a translation does, and unchanged files aren't rewritten.
+ *
  * @param {string} localesDir - Path to source locales directory
  * @param {string} hashedDir - Path to output hashed directory
  * @param {string} manifestPath - Path for JSON manifest
  * @param {string} tsManifestPath - Path for TypeScript manifest
+ * @param {object} [options]
+ * @param {boolean} [options.quiet] - Hide progress messages
+ * @param {number} [options.keep] - Manifests whose files are kept, including
+ *   the new one (default: 3; 1 keeps only the current files)
+ * @param {string} [options.algorithm] - Node crypto hash algorithm (default: 'md5')
+ * @param {number} [options.length] - Hex characters of the hash in file names (default: 8)
+ * @param {Record<string, string[]> | string[]} [options.bundles] - Groups of
+ *   namespaces that are always loaded together, by bundle name. Each group
+ *   becomes one file per language, so loading its namespaces takes one
+ *   request. A list is a single group named 'main'.
+ * @returns {Record<string, string>} Hashed file per 'lang/namespace'; for a
+ *   bundled namespace, the bundle followed by #namespace
+ *
+ * @example
+ * hashTranslations('public/locales', 'public/locales-hashed', manifestPath, tsManifestPath, {
+ *   bundles: { core: ['common', 'nav'] },
+ * });
+ * // manifest['es/nav'] === 'es/core.bundle.1a2b3c4d.json#nav'
  */
 function hashTranslations(
   localesDir,
   hashedDir,
   manifestPath,
-  tsManifestPath
+  tsManifestPath,
+  { quiet = false, keep = 3, algorithm = 'md5', length = 8, bundles = {} } = {}
 ) {
+  const log = quiet ? () => {} : console.log;
   const manifest = {};
+  const groups = normalizeBundles(bundles);
+  const hashOptions = { algorithm, length };
 
   // Ensure the hashed directory exists
   if (!fs.existsSync(hashedDir)) {
     fs.mkdirSync(hashedDir, { recursive: true });
   }
 
-  console.log('Source locales directory:', localesDir);
-  console.log('Hashed locales directory:', hashedDir);
+  log('Source locales directory:', localesDir);
+  log('Hashed locales directory:', hashedDir);
 
   // Get all language directories
-  const langDirs = fs.readdirSync(localesDir).filter((item) => {
-    const itemPath = path.join(localesDir, item);
-    return fs.existsSync(itemPath) && fs.statSync(itemPath).isDirectory();
-  });
+  const langDirs = fs
+    .readdirSync(localesDir)
+    .filter((item) => {
+      const itemPath = path.join(localesDir, item);
+      return fs.existsSync(itemPath) && fs.statSync(itemPath).isDirectory();
+    })
+    .sort();
 
-  console.log('Found language directories:', langDirs);
+  log('Found language directories:', langDirs);
 
   // Process each language directory
   for (const lang of langDirs) {
     const langPath = path.join(localesDir, lang);
-    const hashedLangPath = path.join(hashedDir, lang);
-
-    // Ensure the language directory exists in the hashed location
-    if (!fs.existsSync(hashedLangPath)) {
-      fs.mkdirSync(hashedLangPath, { recursive: true });
-    }
 
-    console.log(`Processing language directory: ${lang}`);
+    log(`Processing language directory: ${lang}`);
 
     // Get all JSON files in the language directory
     const jsonFiles = fs
       .readdirSync(langPath)
-      .filter((file) => file.endsWith('.json'));
-
-    console.log(`Found ${jsonFiles.length} JSON files in ${lang}:`, jsonFiles);
-
-    // Clean up old hashed files to prevent accumulation
-    if (fs.existsSync(hashedLangPath)) {
-      fs.readdirSync(hashedLangPath)
-        .filter((file) => file.endsWith('.json'))
-        .forEach((oldHashedFile) => {
-          try {
-            fs.unlinkSync(path.join(hashedLangPath, oldHashedFile));
-            console.log(`Removed old hashed file: ${oldHashedFile}`);
-          } catch (err) {
-            console.error(
-              `Failed to remove old hashed file ${oldHashedFile}:`,
-              err
-            );
-          }
-        });
+      .filter((file) => file.endsWith('.json'))
+      .sort();
+
+    log(`Found ${jsonFiles.length} JSON files in ${lang}:`, jsonFiles);
+
+    for (const [group, namespaces] of Object.entries(groups)) {
+      const bundle = writeBundle(
+        localesDir,
+        hashedDir,
+        lang,
+        group,
+        namespaces,
+        hashOptions
+      );
+      if (!bundle) continue;
+      log(
+        `${bundle.written ? 'Created' : 'Unchanged'} bundle: ${bundle.hashedFile}`
+      );
+      Object.assign(manifest, bundle.entries);
     }
 
     for (const file of jsonFiles) {
-      const filePath = path.join(langPath, file);
-      const hash = generateHash(filePath);
-
-      // Create new filename with hash
-      const fileNameWithoutExt = file.replace('.json', '');
-      const hashedFileName = `${fileNameWithoutExt}.${hash}.json`;
-      const hashedFilePath = path.join(hashedLangPath, hashedFileName);
+      const namespace = file.replace('.json', '');
+      if (getBundle(groups, namespace)) continue;
 
-      // Copy file with hashed name
-      fs.copyFileSync(filePath, hashedFilePath);
-      console.log(`Created hashed file: ${lang}/${hashedFileName}`);
+      const { hashedFile, written } = writeHashedFile(
+        fs.readFileSync(path.join(langPath, file)),
+        hashedDir,
+        lang,
+        namespace,
+        hashOptions
+      );
+      log(`${written ? 'Created' : 'Unchanged'} hashed file: ${hashedFile}`);
 
       // Store namespace and hashed filename in manifest
-      manifest[`${lang}/${fileNameWithoutExt}`] = `${lang}/${hashedFileName}`;
+      manifest[`${lang}/${namespace}`] = hashedFile;
     }
   }
 
-  // Add timestamp to manifest to ensure it's different each build
-  manifest._buildTime = new Date().toISOString();
+  writeManifest(manifest, manifestPath, tsManifestPath);
+  log(`✅ Translation hash manifest generated at: ${manifestPath}`);
+  log(`✅ TypeScript manifest generated at: ${tsManifestPath}`);
 
-  // Write JSON manifest file
-  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
-  console.log(`✅ Translation hash manifest generated at: ${manifestPath}`);
+  const history = updateHistory(hashedDir, manifest, keep);
+  for (const removed of pruneHashedFiles(hashedDir, history)) {
+    log(`Removed old hashed file: ${removed}`);
+  }
+  return manifest;
+}
 
-  // Generate TypeScript file with manifest
-  generateTSManifest(manifest, tsManifestPath);
-  console.log(`✅ TypeScript manifest generated at: ${tsManifestPath}`);
+/**
+ * Writes the hashed copy of one namespace file, unless it already exists
+ *
+ * @param {Buffer} content - Contents of the namespace file
+ * @param {string} hashedDir - Path to the hashed directory
+ * @param {string} lang - Language directory name
+ * @param {string} namespace - Namespace name
+ * @param {{ algorithm?: string, length?: number }} [hashOptions] - See hashTranslations
+ * @returns {{ hashedFile: string, written: boolean }} Manifest value (e.g.
+ *   'en/common.1a2b3c4d.json') and whether the file was written
+ */
+function writeHashedFile(content, hashedDir, lang, namespace, hashOptions) {
+  const hashedFile = `${lang}/${namespace}.${hashContent(content, hashOptions)}.json`;
+  fs.mkdirSync(path.join(hashedDir, lang), { recursive: true });
+  const written = writeFileIfChanged(path.join(hashedDir, hashedFile), content);
+  return { hashedFile, written };
+}
+
+/**
+ * Validates the bundles option
+ *
+ * @returns {Record<string, string[]>} Namespaces by bundle name
+ * @throws When a namespace is in more than one bundle
+ */
+function normalizeBundles(bundles) {
+  const groups = Array.isArray(bundles) ? { main: bundles } : bundles;
+  const owners = {};
+  for (const [group, namespaces] of Object.entries(groups)) {
+    for (const namespace of namespaces) {
+      if (owners[namespace]) {
+        throw new Error(
+          `Namespace "${namespace}" is in both the "${owners[namespace]}" and "${group}" bundles`
+        );
+      }
+      owners[namespace] = group;
+    }
+  }
+  return groups;
+}
+
+/**
+ * Finds the bundle a namespace belongs to
+ *
+ * @param {Record<string, string[]>} groups - Output of normalizeBundles
+ * @returns {string | undefined} Bundle name
+ */
+function getBundle(groups, namespace) {
+  return Object.keys(groups).find((group) => groups[group].includes(namespace));
+}
+
+/**
+ * Writes the bundle of a group for one language, with the namespaces of the
+ * group that exist in that language
+ *
+ * @param {string} localesDir - Path to source locales directory
+ * @param {string} hashedDir - Path to the hashed directory
+ * @param {string} lang - Language directory name
+ * @param {string} group - Bundle name
+ * @param {string[]} namespaces - Namespaces of the group
+ * @param {{ algorithm?: string, length?: number }} [hashOptions] - See hashTranslations
+ * @returns {{ hashedFile: string, entries: Record<string, string>, written: boolean } | undefined}
+ *   The bundle file, its manifest entries, and whether it was written;
+ *   undefined when none of the namespaces exist in that language
+ */
+function writeBundle(
+  localesDir,
+  hashedDir,
+  lang,
+  group,
+  namespaces,
+  hashOptions
+) {
+  const bundle = {};
+  for (const namespace of [...namespaces].sort()) {
+    const filePath = path.join(localesDir, lang, `${namespace}.json`);
+    if (!fs.existsSync(filePath)) continue;
+    try {
+      bundle[namespace] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to parse ${filePath}: ${error.message}`);
+    }
+  }
+  if (Object.keys(bundle).length === 0) return undefined;
+
+  const content = JSON.stringify(bundle);
+  const hashedFile = `${lang}/${group}.bundle.${hashContent(content, hashOptions)}.json`;
+  fs.mkdirSync(path.join(hashedDir, lang), { recursive: true });
+  const written = writeFileIfChanged(path.join(hashedDir, hashedFile), content);
+
+  const entries = {};
+  for (const namespace of Object.keys(bundle)) {
+    entries[`${lang}/${namespace}`] = `${hashedFile}#${namespace}`;
+  }
+  return { hashedFile, entries, written };
+}
+
+/**
+ * Strips the #namespace of a bundled manifest entry
+ *
+ * @param {string} entry - Manifest value
+ * @returns {string} File relative to the hashed directory
+ */
+function getManifestFile(entry) {
+  return entry.split('#')[0];
+}
+
+/**
+ * Writes the JSON and TypeScript manifests, sorted by key
+ */
+function writeManifest(manifest, manifestPath, tsManifestPath) {
+  const sorted = sortManifest(manifest);
+  writeFileIfChanged(manifestPath, `${JSON.stringify(sorted, null, 2)}\n`);
+
+  generateTSManifest(sorted, tsManifestPath);
+}
+
+function sortManifest(manifest) {
+  return Object.fromEntries(
+    Object.keys(manifest)
+      .sort()
+      .map((key) => [key, manifest[key]])
+  );
+}
+
+/**
+ * Adds the manifest to the history in the hashed directory, unless it's the
+ * same as the latest one
+ *
+ * @returns {Record<string, string>[]} The last `keep` manifests, newest first
+ */
+function updateHistory(hashedDir, manifest, keep) {
+  const historyPath = path.join(hashedDir, HISTORY_FILE);
+  let history = [];
+  try {
+    history = JSON.parse(fs.readFileSync(historyPath, 'utf8'));
+  } catch {
+    // First build, or an unreadable history
+  }
+
+  const sorted = sortManifest(manifest);
+  if (JSON.stringify(history[0]) !== JSON.stringify(sorted)) {
+    history.unshift(sorted);
+  }
+  history = history.slice(0, Math.max(1, keep));
+
+  writeFileIfChanged(historyPath, `${JSON.stringify(history, null, 2)}\n`);
+  return history;
+}
+
+/**
+ * Deletes hashed files that none of the kept manifests refers to
+ *
+ * @returns {string[]} Removed files, relative to the hashed directory
+ */
+function pruneHashedFiles(hashedDir, history) {
+  const referenced = new Set(
+    history.flatMap((manifest) => Object.values(manifest).map(getManifestFile))
+  );
+  const removed = [];
+
+  for (const entry of fs.readdirSync(hashedDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    for (const file of fs.readdirSync(path.join(hashedDir, entry.name))) {
+      const hashedFile = `${entry.name}/${file}`;
+      if (!file.endsWith('.json') || referenced.has(hashedFile)) continue;
+      try {
+        fs.unlinkSync(path.join(hashedDir, hashedFile));
+        removed.push(hashedFile);
+      } catch (err) {
+        console.error(`Failed to remove old hashed file ${hashedFile}:`, err);
+      }
+    }
+  }
+
+  return removed;
 }
 
 /**
  * Create a hash based on file content
+ *
+ * @param {string} filePath - File to hash
+ * @param {{ algorithm?: string, length?: number }} [hashOptions] - See hashTranslations
  */
-function generateHash(filePath) {
-  const fileContent = fs.readFileSync(filePath);
+function generateHash(filePath, hashOptions) {
+  return hashContent(fs.readFileSync(filePath), hashOptions);
+}
+
+function hashContent(content, { algorithm = 'md5', length = 8 } = {}) {
   return crypto
-    .createHash('md5')
-    .update(fileContent)
+    .createHash(algorithm)
+    .update(content)
     .digest('hex')
-    .substring(0, 8);
+    .substring(0, length);
 }
 
 /**
  * Generate TypeScript file with manifest data
  */
 function generateTSManifest(manifest, tsManifestPath) {
-  // Remove buildTime from TypeScript manifest as it's not needed there
-  const tsManifest = { ...manifest };
-  delete tsManifest._buildTime;
-
   const tsContent = `// THIS FILE IS AUTO-GENERATED - DO NOT EDIT MANUALLY
 // It provides the mapping between translation namespaces and their hashed filenames
 
@@ -131,16 +336,22 @@ export interface TranslationManifest {
 
 // This is populated with the manifest generated during build
 export const translationManifest: TranslationManifest = ${JSON.stringify(
-    tsManifest,
+    manifest,
     null,
     2
   )};
 `;
 
-  fs.writeFileSync(tsManifestPath, tsContent);
+  writeFileIfChanged(tsManifestPath, tsContent);
 }
 
 module.exports = {
   hashTranslations,
   generateHash,
+  writeHashedFile,
+  writeBundle,
+  writeManifest,
+  normalizeBundles,
+  getBundle,
+  getManifestFile,
 };
@@ -8,10 +8,34 @@ const {
 } = require('./translationTypes');
 
 const { hashTranslations, generateHash } = require('./hashTranslations');
+const { validatePluralKeys } = require('./plurals');
+const { validateTranslations } = require('./validateTranslations');
+const {
+  scanSource,
+  findUnusedAndMissingKeys,
+  writeMissingKeys,
+} = require('./scanSource');
+const { watchTranslations } = require('./watchTranslations');
+const {
+  exportTranslations,
+  importTranslations,
+} = require('./exchangeTranslations');
+const { loadConfig } = require('./config');
+const { run } = require('./cli');
 
 module.exports = {
   generateTranslationTypes,
   generateDefaultTranslations,
   hashTranslations,
   generateHash,
+  validatePluralKeys,
+  validateTranslations,
+  scanSource,
+  findUnusedAndMissingKeys,
+  writeMissingKeys,
+  watchTranslations,
+  exportTranslations,
+  importTranslations,
+  loadConfig,
+  run,
 };
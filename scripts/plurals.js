@@ -0,0 +1,275 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const fs = require('fs');
+const path = require('path');
+
+const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+const PLURAL_SUFFIX = /^(.+?)_(ordinal_)?(zero|one|two|few|many|other)$/;
+
+// gettext plural formulas of common languages. Each returns the index of
+// the category in the language's getPluralCategories order, and is only
+// used for a language whose Intl.PluralRules it matches.
+const GETTEXT_FORMULAS = [
+  '0',
+  '(n != 1)',
+  '(n > 1)',
+  '(n%10 != 1 || n%100 == 11)',
+  '(n == 1 ? 0 : n != 0 && n%1000000 == 0 ? 1 : 2)',
+  '(n <= 1 ? 0 : n%1000000 == 0 ? 1 : 2)',
+  '(n == 1 ? 0 : n == 2 ? 1 : 2)',
+  '(n == 1 ? 0 : n >= 2 && n <= 4 ? 1 : 3)',
+  '(n == 1 ? 0 : n == 0 || n%100 >= 2 && n%100 <= 19 ? 1 : 2)',
+  '(n == 1 ? 0 : n%10 >= 2 && n%10 <= 4 && (n%100 < 12 || n%100 > 14) ? 1 : 2)',
+  '(n%10 == 1 && n%100 != 11 ? 0 : n%10 >= 2 && n%10 <= 4 && (n%100 < 12 || n%100 > 14) ? 1 : 2)',
+  '(n%10 == 1 && (n%100 < 11 || n%100 > 19) ? 0 : n%10 >= 2 && (n%100 < 11 || n%100 > 19) ? 1 : 3)',
+  '(n%10 == 0 || n%100 >= 11 && n%100 <= 19 ? 0 : n%10 == 1 && n%100 != 11 ? 1 : 2)',
+  '(n%100 == 1 ? 0 : n%100 == 2 ? 1 : n%100 == 3 || n%100 == 4 ? 2 : 3)',
+  '(n == 0 ? 0 : n == 1 ? 1 : n == 2 ? 2 : n%100 >= 3 && n%100 <= 10 ? 3 : n%100 >= 11 ? 4 : 5)',
+];
+
+// Integers a formula is checked against
+const FORMULA_SAMPLES = [
+  ...Array.from({ length: 2000 }, (_, n) => n),
+  1000000,
+  1000001,
+  1000100,
+  2000000,
+  10000000,
+];
+
+/**
+ * Plural categories of a language in CLDR order (zero, one, two, few,
+ * many, other), or just 'one' and 'other' for an unknown language
+ *
+ * @param {string} language - Language code
+ * @param {'cardinal' | 'ordinal'} [type] - Plural rule type (default: 'cardinal')
+ * @returns {string[]}
+ */
+function getPluralCategories(language, type = 'cardinal') {
+  try {
+    const categories = new Intl.PluralRules(language, {
+      type,
+    }).resolvedOptions().pluralCategories;
+    return PLURAL_CATEGORIES.filter((category) =>
+      categories.includes(category)
+    );
+  } catch {
+    return ['one', 'other'];
+  }
+}
+
+/**
+ * Builds a gettext formula from the categories of 0 to 199, repeating the
+ * ones of 100 to 199 for every hundred above
+ */
+function generateGettextFormula(select, categories) {
+  const chain = (from, variable) => {
+    const indexes = Array.from({ length: 100 }, (_, n) =>
+      categories.indexOf(select(from + n))
+    );
+    const counts = {};
+    for (const index of indexes) counts[index] = (counts[index] || 0) + 1;
+    const fallback = Number(
+      Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0]
+    );
+
+    let expression = String(fallback);
+    for (const index of [...new Set(indexes)].reverse()) {
+      if (index === fallback) continue;
+      const ranges = [];
+      indexes.forEach((value, n) => {
+        if (value !== index) return;
+        const last = ranges[ranges.length - 1];
+        if (last && last[1] === n - 1) last[1] = n;
+        else ranges.push([n, n]);
+      });
+      const condition = ranges
+        .map(([start, end]) =>
+          start === end
+            ? `${variable} == ${start}`
+            : `${variable} >= ${start} && ${variable} <= ${end}`
+        )
+        .join(' || ');
+      expression = `${condition} ? ${index} : ${expression}`;
+    }
+    return expression;
+  };
+
+  return `(n < 100 ? ${chain(0, 'n')} : ${chain(100, 'n%100')})`;
+}
+
+/**
+ * Returns the gettext Plural-Forms of a language, whose msgstr[i] is the
+ * i-th of its getPluralCategories
+ *
+ * @param {string} language - Language code
+ * @returns {{ nplurals: number, plural: string, categories: string[] } | undefined}
+ *   Undefined when no formula matches the language's Intl.PluralRules
+ */
+function getGettextPluralForms(language) {
+  let rules;
+  try {
+    rules = new Intl.PluralRules(language);
+  } catch {
+    return undefined;
+  }
+  const categories = getPluralCategories(language);
+  const select = (n) => rules.select(n);
+  const matches = (formula) => {
+    const evaluate = new Function('n', `return +${formula};`);
+    return FORMULA_SAMPLES.every((n) => categories[evaluate(n)] === select(n));
+  };
+
+  const plural = [
+    ...GETTEXT_FORMULAS,
+    generateGettextFormula(select, categories),
+  ].find(matches);
+  return plural
+    ? { nplurals: categories.length, plural, categories }
+    : undefined;
+}
+
+/**
+ * Groups suffixed plural keys (items_one, items_other, items_ordinal_few, ...)
+ * by their base key. A key counts as a plural variant by its suffix alone,
+ * so a group missing its `_other` variant is still a group, and
+ * findMissingPluralCategories reports `other` like any other category.
+ *
+ * @param {object} obj - Object whose direct children are checked
+ * @returns {Record<string, { cardinal: string[], ordinal: string[], keys: string[] }>}
+ *   Categories and member keys for each base key
+ */
+function groupPluralKeys(obj) {
+  const groups = {};
+
+  for (const [key, value] of Object.entries(obj)) {
+    const match = PLURAL_SUFFIX.exec(key);
+    if (!match || typeof value !== 'string') continue;
+
+    const [, base, ordinal, category] = match;
+    groups[base] = groups[base] || { cardinal: [], ordinal: [], keys: [] };
+    groups[base][ordinal ? 'ordinal' : 'cardinal'].push(category);
+    groups[base].keys.push(key);
+  }
+
+  return groups;
+}
+
+/**
+ * Finds plural keys of one namespace that lack categories their language
+ * needs according to Intl.PluralRules
+ *
+ * @param {string} language - Language code
+ * @param {object} translations - Parsed namespace file
+ * @returns {Array<{ key: string, type: string, missing: string[] }> | undefined}
+ *   One entry per incomplete plural key, or undefined for an unknown language
+ */
+function findMissingPluralCategories(language, translations) {
+  let cardinalCategories;
+  let ordinalCategories;
+  try {
+    cardinalCategories = new Intl.PluralRules(language).resolvedOptions()
+      .pluralCategories;
+    ordinalCategories = new Intl.PluralRules(language, {
+      type: 'ordinal',
+    }).resolvedOptions().pluralCategories;
+  } catch {
+    return undefined;
+  }
+
+  const issues = [];
+  const visit = (obj, prefix) => {
+    for (const [base, group] of Object.entries(groupPluralKeys(obj))) {
+      for (const [type, required] of [
+        ['cardinal', cardinalCategories],
+        ['ordinal', ordinalCategories],
+      ]) {
+        if (group[type].length === 0) continue;
+        const missing = required.filter(
+          (category) => !group[type].includes(category)
+        );
+        if (missing.length > 0) {
+          const key = prefix ? `${prefix}.${base}` : base;
+          issues.push({ key, type, missing });
+        }
+      }
+    }
+
+    for (const [key, value] of Object.entries(obj)) {
+      if (typeof value === 'object' && value !== null) {
+        visit(value, prefix ? `${prefix}.${key}` : key);
+      }
+    }
+  };
+
+  visit(translations, '');
+  return issues;
+}
+
+/**
+ * Checks that every plural key provides the categories its language needs
+ * (e.g. `few` and `many` for Polish and Russian, all six for Arabic)
+ * according to Intl.PluralRules, and warns about the missing ones. Files
+ * that aren't valid JSON are reported and skipped.
+ *
+ * @param {string} localesDir - Path to the locales directory (e.g., 'public/locales')
+ * @returns {Array<{ language: string, namespace: string, key?: string, type: string, missing?: string[], message?: string }>}
+ *   One entry per plural key with missing categories, and one with the type
+ *   'invalid-json' per file that couldn't be parsed
+ */
+function validatePluralKeys(localesDir) {
+  const issues = [];
+
+  const langDirs = fs.readdirSync(localesDir).filter((item) => {
+    return fs.statSync(path.join(localesDir, item)).isDirectory();
+  });
+
+  for (const language of langDirs) {
+    const files = fs
+      .readdirSync(path.join(localesDir, language))
+      .filter((file) => file.endsWith('.json'));
+
+    for (const file of files) {
+      const namespace = path.basename(file, '.json');
+      const content = fs.readFileSync(
+        path.join(localesDir, language, file),
+        'utf8'
+      );
+
+      let translations;
+      try {
+        translations = JSON.parse(content);
+      } catch (error) {
+        const message = `Invalid JSON: ${error.message}`;
+        issues.push({ language, namespace, type: 'invalid-json', message });
+        console.error(`❌ ${language}/${namespace}: ${message}`);
+        continue;
+      }
+
+      const found = findMissingPluralCategories(language, translations);
+      if (!found) {
+        console.warn(
+          `⚠️  Skipping plural check for unknown language: ${language}`
+        );
+        break;
+      }
+      for (const { key, type, missing } of found) {
+        issues.push({ language, namespace, key, type, missing });
+        console.warn(
+          `⚠️  ${language}/${namespace}: "${key}" is missing ${type} plural categories: ${missing.join(', ')}`
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+module.exports = {
+  PLURAL_CATEGORIES,
+  PLURAL_SUFFIX,
+  getPluralCategories,
+  getGettextPluralForms,
+  groupPluralKeys,
+  findMissingPluralCategories,
+  validatePluralKeys,
+};
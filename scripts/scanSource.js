@@ -0,0 +1,423 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const fs = require('fs');
+const path = require('path');
+const { writeFileAtomic } = require('./fileUtils');
+const { groupPluralKeys } = require('./plurals');
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+const IGNORED_DIRS = new Set([
+  'node_modules',
+  '.next',
+  'dist',
+  'build',
+  '.git',
+]);
+
+/**
+ * Loads the TypeScript compiler from the project, falling back to the one
+ * installed next to this package
+ */
+function loadTypeScript() {
+  try {
+    return require(
+      require.resolve('typescript', { paths: [process.cwd(), __dirname] })
+    );
+  } catch {
+    throw new Error(
+      'Scanning source files requires the "typescript" package. Install it with: npm install -D typescript'
+    );
+  }
+}
+
+function listSourceFiles(dir) {
+  const files = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name)) {
+        files.push(...listSourceFiles(entryPath));
+      }
+    } else if (
+      SOURCE_EXTENSIONS.includes(path.extname(entry.name)) &&
+      !entry.name.endsWith('.d.ts')
+    ) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Finds the translation keys used in source files
+ *
+ * Recognizes `t` from `useTranslation([...])` and `getTranslations({ namespaces })`,
+ * including t.rich() and t.resolve(), and `<Trans i18nKey ns>`. Like the
+ * hook, keys without a namespace argument belong to the first namespace
+ * listed (default: 'common').
+ *
+ * @param {string[]} sourceDirs - Directories to scan
+ * @returns {{ usages: Array<{ namespace: string, key: string, params: string[], file: string, line: number }>, dynamic: Array<{ namespace: string, prefix: string, file: string, line: number }> }}
+ *   Literal keys, and keys built at runtime (with their literal prefix, if any)
+ */
+function scanSource(sourceDirs) {
+  const ts = loadTypeScript();
+  const usages = [];
+  const dynamic = [];
+
+  for (const file of sourceDirs.flatMap(listSourceFiles)) {
+    const text = fs.readFileSync(file, 'utf8');
+    const sourceFile = ts.createSourceFile(
+      file,
+      text,
+      ts.ScriptTarget.Latest,
+      true,
+      file.endsWith('x') ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+    );
+    const lineOf = (node) =>
+      sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+
+    // Names bound to t (or to the whole hook result) per scope node
+    const scopes = new Map();
+
+    const isString = (node) =>
+      node &&
+      (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node));
+
+    const getNamespaces = (call) => {
+      const name = call.expression.getText();
+      let list;
+      if (name === 'useTranslation') {
+        list = call.arguments[0];
+      } else if (
+        call.arguments[0] &&
+        ts.isObjectLiteralExpression(call.arguments[0])
+      ) {
+        const property = call.arguments[0].properties.find(
+          (prop) => prop.name && prop.name.getText() === 'namespaces'
+        );
+        list = property && property.initializer;
+      }
+      const namespaces =
+        list && ts.isArrayLiteralExpression(list)
+          ? list.elements.filter(isString).map((element) => element.text)
+          : [];
+      return namespaces.length > 0 ? namespaces : ['common'];
+    };
+
+    const getScope = (node) => {
+      for (let current = node.parent; current; current = current.parent) {
+        if (ts.isFunctionLike(current) || ts.isSourceFile(current)) {
+          return current;
+        }
+      }
+      return sourceFile;
+    };
+
+    const bind = (scope, name, binding) => {
+      if (!scopes.has(scope)) scopes.set(scope, new Map());
+      scopes.get(scope).set(name, binding);
+    };
+
+    const lookup = (node, name) => {
+      for (let current = node; current; current = current.parent) {
+        const binding = scopes.get(current)?.get(name);
+        if (binding) return binding;
+      }
+      return undefined;
+    };
+
+    // First pass: find where t comes from
+    const collectBindings = (node) => {
+      if (
+        ts.isCallExpression(node) &&
+        ['useTranslation', 'getTranslations'].includes(
+          node.expression.getText()
+        )
+      ) {
+        let declaration = node.parent;
+        if (ts.isAwaitExpression(declaration)) declaration = declaration.parent;
+
+        if (ts.isVariableDeclaration(declaration)) {
+          const namespace = getNamespaces(node)[0];
+          const scope = getScope(declaration);
+          if (ts.isObjectBindingPattern(declaration.name)) {
+            for (const element of declaration.name.elements) {
+              const property = (element.propertyName || element.name).getText();
+              if (property === 't') {
+                bind(scope, element.name.getText(), { namespace, kind: 't' });
+              }
+            }
+          } else if (ts.isIdentifier(declaration.name)) {
+            bind(scope, declaration.name.text, { namespace, kind: 'result' });
+          }
+        }
+      }
+      ts.forEachChild(node, collectBindings);
+    };
+
+    // Resolves t, t.rich, hook.t and hook.t.rich to their binding
+    const resolveCallee = (callee) => {
+      if (ts.isIdentifier(callee)) {
+        const binding = lookup(callee, callee.text);
+        return binding && binding.kind === 't' ? binding : undefined;
+      }
+      if (ts.isPropertyAccessExpression(callee)) {
+        const target = callee.expression;
+        if (ts.isIdentifier(target)) {
+          const binding = lookup(target, target.text);
+          if (!binding) return undefined;
+          if (binding.kind === 't') return binding;
+          return callee.name.text === 't' ? binding : undefined;
+        }
+        return resolveCallee(target);
+      }
+      return undefined;
+    };
+
+    const addUsage = (keyNode, namespace, params, node) => {
+      if (isString(keyNode)) {
+        usages.push({
+          namespace,
+          key: keyNode.text,
+          params,
+          file,
+          line: lineOf(node),
+        });
+      } else if (keyNode) {
+        dynamic.push({
+          namespace,
+          prefix: ts.isTemplateExpression(keyNode) ? keyNode.head.text : '',
+          file,
+          line: lineOf(node),
+        });
+      }
+    };
+
+    // Second pass: find the calls
+    const collectUsages = (node) => {
+      if (ts.isCallExpression(node)) {
+        const binding = resolveCallee(node.expression);
+        if (binding) {
+          const [keyNode, second, third] = node.arguments;
+          // A non-string second argument holds the values, even when it's a
+          // variable, and the namespace comes third
+          const namespaceNode = second && !isString(second) ? third : second;
+          const params =
+            second && ts.isObjectLiteralExpression(second)
+              ? second.properties
+                  .map((prop) => prop.name && prop.name.getText())
+                  .filter(Boolean)
+              : [];
+          addUsage(
+            keyNode,
+            isString(namespaceNode) ? namespaceNode.text : binding.namespace,
+            params,
+            node
+          );
+        }
+      } else if (
+        (ts.isJsxSelfClosingElement(node) || ts.isJsxOpeningElement(node)) &&
+        node.tagName.getText() === 'Trans'
+      ) {
+        const attribute = (name) => {
+          const attr = node.attributes.properties.find(
+            (prop) => prop.name && prop.name.getText() === name
+          );
+          if (!attr || !attr.initializer) return undefined;
+          return ts.isJsxExpression(attr.initializer)
+            ? attr.initializer.expression
+            : attr.initializer;
+        };
+        const namespaceNode = attribute('ns');
+        addUsage(
+          attribute('i18nKey'),
+          isString(namespaceNode) ? namespaceNode.text : 'common',
+          [],
+          node
+        );
+      }
+      ts.forEachChild(node, collectUsages);
+    };
+
+    collectBindings(sourceFile);
+    if (scopes.size > 0 || text.includes('Trans')) {
+      collectUsages(sourceFile);
+    }
+  }
+
+  return { usages, dynamic };
+}
+
+/**
+ * Lists the keys of a namespace, folding plural variants into their base
+ * key and keeping the paths of objects (which t.raw can return)
+ */
+function listKeys(obj, prefix = '', keys = { leaves: [], all: new Set() }) {
+  const pluralGroups = groupPluralKeys(obj);
+  const pluralKeys = new Set(
+    Object.values(pluralGroups).flatMap((group) => group.keys)
+  );
+
+  for (const base of Object.keys(pluralGroups)) {
+    const fullKey = prefix ? `${prefix}.${base}` : base;
+    keys.leaves.push(fullKey);
+    keys.all.add(fullKey);
+  }
+  for (const [key, value] of Object.entries(obj)) {
+    if (pluralKeys.has(key)) continue;
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    keys.all.add(fullKey);
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      listKeys(value, fullKey, keys);
+    } else {
+      keys.leaves.push(fullKey);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Compares the keys used in source files with the default-language files
+ *
+ * @param {string[]} sourceDirs - Directories to scan
+ * @param {string} localesDir - Default-language directory (e.g., 'public/locales/en')
+ * @returns {{ missing: Array<{ namespace: string, key: string, params: string[], file: string, line: number }>, unused: Array<{ namespace: string, key: string }>, dynamic: Array<{ namespace: string, prefix: string, file: string, line: number }> }}
+ *   Keys used but not defined (one entry per key), keys defined but never
+ *   used, and keys built at runtime. Keys matching the literal prefix of a
+ *   dynamic key (t(`errors.${code}`)) are not reported as unused.
+ */
+function findUnusedAndMissingKeys(sourceDirs, localesDir) {
+  const { usages, dynamic } = scanSource(sourceDirs);
+
+  const catalogs = {};
+  for (const file of fs.readdirSync(localesDir)) {
+    if (!file.endsWith('.json')) continue;
+    const namespace = path.basename(file, '.json');
+    catalogs[namespace] = listKeys(
+      JSON.parse(fs.readFileSync(path.join(localesDir, file), 'utf8'))
+    );
+  }
+
+  const missing = new Map();
+  const used = new Set();
+  for (const usage of usages) {
+    const id = `${usage.namespace}:${usage.key}`;
+    used.add(id);
+    if (!catalogs[usage.namespace]?.all.has(usage.key) && !missing.has(id)) {
+      missing.set(id, usage);
+    }
+  }
+
+  const unused = [];
+  for (const [namespace, keys] of Object.entries(catalogs)) {
+    for (const key of keys.leaves) {
+      // The key itself, or an object containing it (t.raw('nav'))
+      const parts = key.split('.');
+      const usedDirectly = parts.some((_, index) =>
+        used.has(`${namespace}:${parts.slice(0, index + 1).join('.')}`)
+      );
+      // t(`errors.${code}`) uses errors.*, and t(`steps.${i}`) the array
+      // under steps
+      const usedDynamically = dynamic.some(
+        (usage) =>
+          usage.namespace === namespace &&
+          (key.startsWith(usage.prefix) || usage.prefix.startsWith(`${key}.`))
+      );
+      if (!usedDirectly && !usedDynamically) {
+        unused.push({ namespace, key });
+      }
+    }
+  }
+
+  return { missing: [...missing.values()], unused, dynamic };
+}
+
+function sortKeys(value) {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, sortKeys(value[key])])
+  );
+}
+
+/**
+ * Adds keys to the default-language files, creating namespaces as needed
+ * New values are the key followed by the variables passed to t(), so the
+ * generated types accept the same call (e.g. "cart.total {{amount}}").
+ * Files that get a key are rewritten with their keys sorted, so repeated
+ * runs are stable; the others are left alone.
+ *
+ * @param {string} localesDir - Default-language directory (e.g., 'public/locales/en')
+ * @param {Array<{ namespace: string, key: string, params?: string[] }>} keys - Keys to add
+ * @returns {{ written: string[], skipped: Array<{ namespace: string, key: string }> }}
+ *   Files that were written, and keys that couldn't be added because they
+ *   already exist or a parent key is a string
+ */
+function writeMissingKeys(localesDir, keys) {
+  const byNamespace = {};
+  for (const entry of keys) {
+    (byNamespace[entry.namespace] = byNamespace[entry.namespace] || []).push(
+      entry
+    );
+  }
+
+  const written = [];
+  const skipped = [];
+  for (const [namespace, entries] of Object.entries(byNamespace)) {
+    const filePath = path.join(localesDir, `${namespace}.json`);
+    const translations = fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, 'utf8'))
+      : {};
+    let changed = false;
+
+    for (const { key, params = [] } of entries) {
+      const parts = key.split('.');
+      let target = translations;
+      let conflict = false;
+      for (const part of parts.slice(0, -1)) {
+        if (target[part] === undefined) {
+          target[part] = {};
+        } else if (typeof target[part] !== 'object' || target[part] === null) {
+          conflict = true;
+          break;
+        }
+        target = target[part];
+      }
+      const last = parts[parts.length - 1];
+      if (conflict) {
+        console.warn(
+          `⚠️  Can't add "${key}" to ${namespace}: a parent key is a string`
+        );
+        skipped.push({ namespace, key });
+        continue;
+      }
+      if (target[last] !== undefined) {
+        console.warn(
+          `⚠️  Can't add "${key}" to ${namespace}: the key already exists`
+        );
+        skipped.push({ namespace, key });
+        continue;
+      }
+      target[last] = [key, ...params.map((name) => `{{${name}}}`)].join(' ');
+      changed = true;
+    }
+
+    if (!changed) continue;
+    writeFileAtomic(
+      filePath,
+      `${JSON.stringify(sortKeys(translations), null, 2)}\n`
+    );
+    written.push(filePath);
+  }
+
+  return { written, skipped };
+}
+
+module.exports = {
+  scanSource,
+  findUnusedAndMissingKeys,
+  writeMissingKeys,
+};
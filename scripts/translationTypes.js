@@ -1,150 +1,929 @@
 /* eslint-disable @typescript-eslint/no-require-imports */
 const fs = require('fs');
 const path = require('path');
+const { groupPluralKeys } = require('./plurals');
+const { writeFileAtomic, writeFileIfChanged } = require('./fileUtils');
+
+const HEADER = `// THIS FILE IS AUTO-GENERATED - DO NOT EDIT MANUALLY\n`;
 
 /**
  * Generates TypeScript interfaces from translation JSON files
  * This is used in a build script to keep types in sync with translations
  *
+ * `SupportedLanguage` is the union of the language directories next to
+ * `localesDir` (e.g. 'de' | 'en' | 'es' for public/locales/{de,en,es}).
+ *
+ * With `split`, the declarations of each namespace go to their own file in
+ * a directory named after the output (src/types/translations/common.ts for
+ * src/types/translations.ts), so a change to one namespace only invalidates
+ * that file for the type checker.
+ *
  * @param {string} localesDir - Path to the locales directory (e.g., 'public/locales/en')
  * @param {string} outputPath - Path for the generated types file
+ * @param {{ quiet?: boolean, languages?: string[], split?: boolean }} [options] -
+ *   `quiet` hides progress messages; `languages` replaces the language
+ *   directories; `split` writes one file per namespace
+ */
+function generateTranslationTypes(
+  localesDir,
+  outputPath,
+  {
+    quiet = false,
+    languages = readLanguages(path.dirname(localesDir)),
+    split = false,
+  } = {}
+) {
+  const fragments = {};
+  for (const [namespace, translations] of Object.entries(
+    readNamespaces(localesDir)
+  )) {
+    fragments[namespace] = renderNamespaceTypes(namespace, translations);
+    for (const warning of fragments[namespace].warnings) {
+      console.warn(`⚠️  ${warning}`);
+    }
+  }
+
+  writeTranslationTypes(fragments, localesDir, outputPath, {
+    languages,
+    split,
+  });
+  if (!quiet) console.log(`✅ Generated translation types at ${outputPath}`);
+}
+
+/**
+ * Reads every namespace of a language, sorted by name
+ *
+ * @param {string} localesDir - Path to the locales directory (e.g., 'public/locales/en')
+ * @returns {Record<string, object>} Parsed translations keyed by namespace
  */
-function generateTranslationTypes(localesDir, outputPath) {
-  const files = fs.readdirSync(localesDir);
-  const namespaces = files
+function readNamespaces(localesDir) {
+  const namespaces = fs
+    .readdirSync(localesDir)
     .filter((file) => file.endsWith('.json'))
-    .map((file) => path.basename(file, '.json'));
+    .map((file) => path.basename(file, '.json'))
+    .sort();
 
-  let output = `// THIS FILE IS AUTO-GENERATED - DO NOT EDIT MANUALLY\n`;
+  const translations = {};
+  for (const namespace of namespaces) {
+    const filePath = path.join(localesDir, `${namespace}.json`);
+    translations[namespace] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  }
+  return translations;
+}
+
+/**
+ * Lists the language directories of a locales directory, sorted. Directories
+ * whose name isn't a BCP 47 language tag (like a drafts folder) are skipped.
+ *
+ * @param {string} localesRoot - Directory with one subdirectory per language
+ *   (e.g., 'public/locales')
+ * @returns {string[]} Directory names
+ */
+function readLanguages(localesRoot) {
+  if (!fs.existsSync(localesRoot)) return [];
+  return fs
+    .readdirSync(localesRoot, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && isLanguageTag(entry.name))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+function isLanguageTag(name) {
+  try {
+    return Intl.getCanonicalLocales(name).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Type name prefix of a namespace: 'common' => 'Common',
+ * 'user-profile' => 'UserProfile'
+ */
+function typeName(namespace) {
+  const name = namespace
+    .split(/[^\w$]+/)
+    .filter(Boolean)
+    .map((part) => `${part.charAt(0).toUpperCase()}${part.slice(1)}`)
+    .join('');
+  return /^[A-Za-z_$]/.test(name) ? name : `_${name}`;
+}
+
+/**
+ * Single-quoted TypeScript string literal
+ */
+function quote(value) {
+  return `'${JSON.stringify(value)
+    .slice(1, -1)
+    .replace(/\\"/g, '"')
+    .replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Property name, quoted unless it's a valid identifier
+ */
+function propertyName(key) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+/**
+ * JSDoc comment with the default-language text, shown on hover
+ */
+function renderDoc(lines, indentStr) {
+  // The text can't end the comment early
+  const escaped = lines.flatMap((line) =>
+    line.replace(/\*\//g, '*\\/').split('\n')
+  );
+  // Nothing to show for an empty string
+  if (escaped.every((line) => !line.trim())) {
+    return '';
+  }
+  if (escaped.length === 1) {
+    return `${indentStr}/** ${escaped[0]} */\n`;
+  }
+  return `${indentStr}/**\n${escaped
+    .map((line) => `${indentStr} *${line ? ` ${line}` : ''}`)
+    .join('\n')}\n${indentStr} */\n`;
+}
+
+/**
+ * Generates the types that depend on a single namespace, so watch mode only
+ * has to redo the namespace that changed
+ *
+ * Keys with a dot can't be reached with t(), which splits keys on dots, so
+ * they aren't translation keys and are reported in `warnings`.
+ *
+ * @param {string} namespace - Namespace name
+ * @param {object} translations - Parsed namespace file
+ * @returns {{ interface: string, params: string, tags: string, warnings: string[] }}
+ *   Declarations, and the problems found in the keys
+ */
+function renderNamespaceTypes(namespace, translations) {
+  const name = typeName(namespace);
+  const warnings = [];
+  for (const key of findDottedKeys(translations, '')) {
+    const reachable = key
+      .split('.')
+      .reduce(
+        (value, part) =>
+          typeof value === 'object' && value !== null ? value[part] : undefined,
+        translations
+      );
+    warnings.push(
+      `${namespace}: "${key}" contains a dot, so t() ${
+        reachable === undefined
+          ? "can't reach it"
+          : 'returns the nested key with the same path instead'
+      }; it isn't a translation key`
+    );
+  }
+
+  let interfaceOutput = `export interface ${name}Translations {\n`;
+  interfaceOutput += generateInterfaceProperties(translations, 2);
+  interfaceOutput += `}\n\n`;
+
+  let params = `export interface ${name}TranslationParams {\n`;
+  for (const [key, placeholders] of Object.entries(
+    collectParams(translations, '')
+  )) {
+    const fields = Object.entries(placeholders)
+      .map(([param, type]) =>
+        param.endsWith('?')
+          ? `${quote(param.slice(0, -1))}?: ${type}`
+          : `${quote(param)}: ${type}`
+      )
+      .join('; ');
+    params += `  ${quote(key)}: { ${fields} };\n`;
+  }
+  params += `}\n\n`;
+
+  let tags = `export interface ${name}TranslationTags {\n`;
+  for (const [key, tagNames] of Object.entries(collectTags(translations, ''))) {
+    tags += `  ${quote(key)}: ${tagNames.map(quote).join(' | ')};\n`;
+  }
+  tags += `}\n\n`;
+
+  return { interface: interfaceOutput, params, tags, warnings };
+}
+
+/**
+ * Lists the keys that contain a dot, as dot-notation paths
+ */
+function findDottedKeys(obj, prefix) {
+  const keys = [];
+  for (const [key, value] of Object.entries(obj)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (key.includes('.')) {
+      keys.push(fullKey);
+    } else if (typeof value === 'object' && value !== null) {
+      keys.push(...findDottedKeys(value, fullKey));
+    }
+  }
+  return keys;
+}
+
+/**
+ * Writes the types file and, with `split`, the file of each namespace
+ * Files that didn't change aren't rewritten, and namespace files of removed
+ * namespaces are deleted.
+ *
+ * @param {Record<string, { interface: string, params: string, tags: string }>} fragments -
+ *   Output of renderNamespaceTypes keyed by namespace
+ * @param {string} localesDir - Source directory, mentioned in the headers
+ * @param {string} outputPath - Path for the generated types file
+ * @param {{ languages?: string[], split?: boolean }} [options] - See generateTranslationTypes
+ */
+function writeTranslationTypes(
+  fragments,
+  localesDir,
+  outputPath,
+  { languages = [], split = false } = {}
+) {
+  const splitDir = outputPath.replace(/\.[cm]?tsx?$/, '');
+  const splitImport = `./${path.basename(splitDir)}`;
+
+  if (split) {
+    fs.mkdirSync(splitDir, { recursive: true });
+    for (const [namespace, fragment] of Object.entries(fragments)) {
+      writeFileIfChanged(
+        path.join(splitDir, `${namespace}.ts`),
+        renderNamespaceFile(
+          fragment,
+          path.join(localesDir, `${namespace}.json`)
+        )
+      );
+    }
+  }
+  if (fs.existsSync(splitDir)) {
+    for (const file of fs.readdirSync(splitDir)) {
+      const namespace = path.basename(file, '.ts');
+      const filePath = path.join(splitDir, file);
+      const generated =
+        file.endsWith('.ts') &&
+        fs.readFileSync(filePath, 'utf8').startsWith(HEADER);
+      if (generated && !(split && namespace in fragments)) {
+        fs.rmSync(filePath);
+      }
+    }
+    if (!split && fs.readdirSync(splitDir).length === 0) {
+      fs.rmdirSync(splitDir);
+    }
+  }
+
+  writeFileIfChanged(
+    outputPath,
+    renderTranslationTypes(fragments, localesDir, {
+      languages,
+      splitImport: split ? splitImport : undefined,
+    })
+  );
+}
+
+/**
+ * Renders the file of one namespace for split output
+ */
+function renderNamespaceFile(fragment, sourceFile) {
+  let output = HEADER;
+  output += `// Generated from ${sourceFile}\n\n`;
+  output += fragment.interface + fragment.params + fragment.tags;
+  return output.replace(/\n+$/, '\n');
+}
+
+/**
+ * Assembles the types file from the declarations of every namespace
+ *
+ * @param {Record<string, { interface: string, params: string, tags: string }>} fragments -
+ *   Output of renderNamespaceTypes keyed by namespace
+ * @param {string} localesDir - Source directory, mentioned in the header
+ * @param {{ languages?: string[], splitImport?: string }} [options] -
+ *   `languages` are the codes of SupportedLanguage (`string` without any);
+ *   with `splitImport`, the namespace declarations are imported from
+ *   `<splitImport>/<namespace>` instead of included
+ * @returns {string} Contents of the types file
+ */
+function renderTranslationTypes(
+  fragments,
+  localesDir,
+  { languages = [], splitImport } = {}
+) {
+  const namespaces = Object.keys(fragments);
+
+  let output = HEADER;
   output += `// Generated from translation files in ${localesDir}\n\n`;
+  output += `import type { ReactElement, ReactNode } from 'react';\n`;
+
+  if (splitImport) {
+    for (const namespace of namespaces) {
+      const name = typeName(namespace);
+      const source = quote(`${splitImport}/${namespace}`);
+      output += `import type {\n`;
+      output += `  ${name}Translations,\n`;
+      output += `  ${name}TranslationParams,\n`;
+      output += `  ${name}TranslationTags,\n`;
+      output += `} from ${source};\n`;
+      output += `export * from ${source};\n`;
+    }
+  }
+  output += `\n`;
 
   // Generate the TranslationNamespace type
-  output += `export type TranslationNamespace = ${namespaces
-    .map((ns) => `'${ns}'`)
-    .join(' | ')};\n\n`;
+  output += `export type TranslationNamespace = ${
+    namespaces.length > 0 ? namespaces.map(quote).join(' | ') : 'never'
+  };\n\n`;
 
   // Generate interfaces for each namespace
-  for (const namespace of namespaces) {
-    const filePath = path.join(localesDir, `${namespace}.json`);
-    const content = fs.readFileSync(filePath, 'utf8');
-    const translations = JSON.parse(content);
-
-    const interfaceName = `${namespace
-      .charAt(0)
-      .toUpperCase()}${namespace.slice(1)}Translations`;
-    output += `export interface ${interfaceName} {\n`;
-    output += generateInterfaceProperties(translations, 2);
-    output += `}\n\n`;
+  if (!splitImport) {
+    for (const namespace of namespaces) {
+      output += fragments[namespace].interface;
+    }
   }
 
   // Generate the main Translations interface
   output += `export interface Translations {\n`;
   for (const namespace of namespaces) {
-    const interfaceName = `${namespace
-      .charAt(0)
-      .toUpperCase()}${namespace.slice(1)}Translations`;
-    output += `  ${namespace}: ${interfaceName};\n`;
+    output += `  ${propertyName(namespace)}: ${typeName(namespace)}Translations;\n`;
   }
   output += `}\n\n`;
 
   // Generate utility types for path-based translation keys
   output += `// Utility types for type-safe translation keys\n`;
-  output += `type PathImpl<T, Key extends keyof T> = Key extends string\n`;
-  output += `  ? T[Key] extends Record<string, any>\n`;
-  output += `    ? \`\${Key}.\${PathImpl<T[Key], keyof T[Key]>}\`\n`;
-  output += `    : Key\n`;
-  output += `  : never;\n\n`;
+  output += PATH_TYPE;
 
-  output += `type Path<T> = PathImpl<T, keyof T>;\n\n`;
+  output += `export type TranslationKeys<T> = Path<T>;\n\n`;
 
   // Generate type for each namespace's translation keys
   for (const namespace of namespaces) {
-    const interfaceName = `${namespace
-      .charAt(0)
-      .toUpperCase()}${namespace.slice(1)}Translations`;
-    const typeKeyName = `${namespace.charAt(0).toUpperCase()}${namespace.slice(
-      1
-    )}TranslationKey`;
-
-    output += `export type ${typeKeyName} = Path<${interfaceName}>;\n`;
+    const name = typeName(namespace);
+    output += `export type ${name}TranslationKey = Path<${name}Translations>;\n`;
   }
   output += `\n`;
 
   // Generate TranslationKey mapped type
   output += `export type TranslationKey<N extends TranslationNamespace> = `;
-  let unionTypes = [];
+  output += namespaces
+    .map(
+      (namespace) =>
+        `N extends ${quote(namespace)} ? ${typeName(namespace)}TranslationKey`
+    )
+    .join('\n  : ');
+  output += `\n  : never;\n\n`;
+
+  // Generate the keys and values of t.raw() and t.list()
+  output += `// Keys and values of subtrees, for t.raw() and t.list()\n`;
+  output += RAW_TYPES;
+
+  // Generate interpolation variable types for each namespace
+  output += `// Interpolation variables per key, extracted from {{name}} and ICU arguments\n`;
+  if (!splitImport) {
+    for (const namespace of namespaces) {
+      output += fragments[namespace].params;
+    }
+  }
+
+  output += `export interface TranslationParamsMap {\n`;
   for (const namespace of namespaces) {
-    const typeKeyName = `${namespace.charAt(0).toUpperCase()}${namespace.slice(
-      1
-    )}TranslationKey`;
-    unionTypes.push(`N extends '${namespace}' ? ${typeKeyName}`);
+    output += `  ${propertyName(namespace)}: ${typeName(namespace)}TranslationParams;\n`;
   }
-  output += unionTypes.join('\n  : ');
-  output += `\n  : never;\n`;
+  output += `}\n\n`;
+
+  output += `export type TranslationParams<\n`;
+  output += `  N extends TranslationNamespace,\n`;
+  output += `  K extends string\n`;
+  output += `> = N extends TranslationNamespace\n`;
+  output += `  ? K extends keyof TranslationParamsMap[N]\n`;
+  output += `    ? TranslationParamsMap[N][K]\n`;
+  output += `    : never\n`;
+  output += `  : never;\n\n`;
+
+  output += `export type TranslationValuesArg<\n`;
+  output += `  N extends TranslationNamespace,\n`;
+  output += `  K extends string\n`;
+  output += `> = [TranslationParams<N, K>] extends [never]\n`;
+  output += `  ? []\n`;
+  output += `  : [values: TranslationParams<N, K>];\n\n`;
 
-  // Add SupportedLanguage type placeholder
-  output += `\n// Replace this with your actual supported language type\n`;
-  output += `export type SupportedLanguage = string;\n`;
+  // Generate rich text tag types for each namespace
+  output += `// Tags per key, extracted from <tag>...</tag> and <tag/>\n`;
+  if (!splitImport) {
+    for (const namespace of namespaces) {
+      output += fragments[namespace].tags;
+    }
+  }
+
+  output += `export interface TranslationTagsMap {\n`;
+  for (const namespace of namespaces) {
+    output += `  ${propertyName(namespace)}: ${typeName(namespace)}TranslationTags;\n`;
+  }
+  output += `}\n\n`;
 
-  fs.writeFileSync(outputPath, output);
-  console.log(`✅ Generated translation types at ${outputPath}`);
+  output += `export type TranslationTag<\n`;
+  output += `  N extends TranslationNamespace,\n`;
+  output += `  K extends string\n`;
+  output += `> = N extends TranslationNamespace\n`;
+  output += `  ? K extends keyof TranslationTagsMap[N]\n`;
+  output += `    ? TranslationTagsMap[N][K]\n`;
+  output += `    : never\n`;
+  output += `  : never;\n\n`;
+
+  output += TRANSLATE_FUNCTION_TYPE;
+
+  // Generate the SupportedLanguage type from the language directories
+  output += `\nexport type SupportedLanguage = ${
+    languages.length > 0 ? languages.map(quote).join(' | ') : 'string'
+  };\n`;
+
+  return output;
 }
 
+/**
+ * Renders the properties of a translation object, with the default-language
+ * text of each string as its JSDoc
+ */
 function generateInterfaceProperties(obj, indent) {
   let output = '';
   const indentStr = ' '.repeat(indent);
 
+  // Plural variants (items_one, items_other, ...) fold into one key (items)
+  const pluralGroups = groupPluralKeys(obj);
+  const pluralKeys = new Set(
+    Object.values(pluralGroups).flatMap((group) => group.keys)
+  );
+
   for (const [key, value] of Object.entries(obj)) {
-    if (typeof value === 'object' && value !== null) {
-      output += `${indentStr}${key}: {\n`;
-      output += generateInterfaceProperties(value, indent + 2);
-      output += `${indentStr}};\n`;
-    } else {
-      output += `${indentStr}${key}: string;\n`;
+    if (pluralKeys.has(key)) {
+      const base = Object.keys(pluralGroups).find((name) =>
+        pluralGroups[name].keys.includes(key)
+      );
+      if (pluralGroups[base].keys[0] === key && !(base in obj)) {
+        output += renderDoc(
+          pluralGroups[base].keys.map(
+            (variant) => `${variant.slice(base.length + 1)}: ${obj[variant]}`
+          ),
+          indentStr
+        );
+        output += `${indentStr}${propertyName(base)}: string;\n`;
+      }
+      continue;
+    }
+
+    if (typeof value === 'string') {
+      output += renderDoc([value], indentStr);
+    } else if (
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every((item) => typeof item === 'string')
+    ) {
+      output += renderDoc(
+        value.map((item, index) => `${index}: ${item}`),
+        indentStr
+      );
     }
+    output += `${indentStr}${propertyName(key)}: ${renderValueType(
+      value,
+      indent
+    )};\n`;
   }
 
   return output;
 }
 
+/**
+ * Type of a JSON value; arrays become tuples, so each index is a key
+ */
+function renderValueType(value, indent) {
+  const indentStr = ' '.repeat(indent);
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    const items = value.map((item) => renderValueType(item, indent + 2));
+    if (items.every((item) => !item.includes('\n'))) {
+      return `[${items.join(', ')}]`;
+    }
+    return `[\n${items
+      .map((item) => `${indentStr}  ${item}`)
+      .join(',\n')}\n${indentStr}]`;
+  }
+  if (typeof value === 'object') {
+    return `{\n${generateInterfaceProperties(value, indent + 2)}${indentStr}}`;
+  }
+  return typeof value === 'number' || typeof value === 'boolean'
+    ? typeof value
+    : 'string';
+}
+
+// Dot-notation paths to the strings of a translation object, mirroring
+// src/types/translations.ts. Tuples contribute their indexes ('steps.0'),
+// and keys with a dot are left out since t() can't reach them.
+const PATH_TYPE = `type PathImpl<T, Key extends keyof T> = Key extends string
+  ? Key extends \`\${string}.\${string}\`
+    ? never
+    : T[Key] extends string
+      ? Key
+      : T[Key] extends object
+        ? \`\${Key}.\${Path<T[Key]>}\`
+        : never
+  : never;
+
+type Path<T> = T extends readonly unknown[]
+  ? PathImpl<T, Extract<keyof T, \`\${number}\`>>
+  : PathImpl<T, keyof T>;
+
+`;
+
+// Every path of a translation object, including the ones of arrays and
+// objects, and the type at a path
+const RAW_TYPES = `type TreePathImpl<T, Key extends keyof T> = Key extends string
+  ? Key extends \`\${string}.\${string}\`
+    ? never
+    : T[Key] extends object
+      ? Key | \`\${Key}.\${TreePath<T[Key]>}\`
+      : Key
+  : never;
+
+type TreePath<T> = T extends readonly unknown[]
+  ? TreePathImpl<T, Extract<keyof T, \`\${number}\`>>
+  : TreePathImpl<T, keyof T>;
+
+type PathValue<T, K extends string> = K extends keyof T
+  ? T[K]
+  : K extends \`\${infer Head}.\${infer Rest}\`
+    ? Head extends keyof T
+      ? PathValue<T[Head], Rest>
+      : never
+    : never;
+
+export type RawTranslationKey<N extends TranslationNamespace> = TreePath<
+  Translations[N]
+>;
+
+export type RawTranslation<
+  N extends TranslationNamespace,
+  K extends string
+> = PathValue<Translations[N], K>;
+
+export type ListTranslationKey<N extends TranslationNamespace> = {
+  [K in RawTranslationKey<N>]: RawTranslation<N, K> extends readonly string[]
+    ? K
+    : never;
+}[RawTranslationKey<N>];
+
+`;
+
+// Signatures of t() and its variants, mirroring src/types/translations.ts
+const TRANSLATE_FUNCTION_TYPE = `export interface ResolvedTranslation {
+  value: string;
+  language: SupportedLanguage | undefined;
+}
+
+export interface TranslateSignature<
+  D extends TranslationNamespace,
+  A extends TranslationNamespace,
+  R
+> {
+  <K extends TranslationKey<D>>(
+    key: K,
+    ...values: TranslationValuesArg<D, K>
+  ): R;
+  <N extends A, K extends TranslationKey<N>>(
+    key: K,
+    ...args: [...TranslationValuesArg<N, K>, N]
+  ): R;
+}
+
+export type RichTagRenderer = ReactElement | ((chunks: ReactNode) => ReactNode);
+
+// Variables may also be React nodes, and every tag needs a renderer
+type RichParams<N extends TranslationNamespace, K extends string> =
+  [TranslationParams<N, K>] extends [never]
+    ? {}
+    : {
+        [P in keyof TranslationParams<N, K>]:
+          | TranslationParams<N, K>[P]
+          | ReactNode;
+      };
+
+type RichTags<N extends TranslationNamespace, K extends string> =
+  [TranslationTag<N, K>] extends [never]
+    ? {}
+    : { [T in TranslationTag<N, K>]: RichTagRenderer };
+
+export type RichTranslationValues<
+  N extends TranslationNamespace,
+  K extends string
+> = RichParams<N, K> & RichTags<N, K>;
+
+export type RichTranslationValuesArg<
+  N extends TranslationNamespace,
+  K extends string
+> = {} extends RichTranslationValues<N, K>
+  ? [] | [values: RichTranslationValues<N, K>]
+  : [values: RichTranslationValues<N, K>];
+
+export interface RichTranslateSignature<
+  D extends TranslationNamespace,
+  A extends TranslationNamespace
+> {
+  <K extends TranslationKey<D>>(
+    key: K,
+    ...values: RichTranslationValuesArg<D, K>
+  ): ReactNode;
+  <N extends A, K extends TranslationKey<N>>(
+    key: K,
+    ...args: [...RichTranslationValuesArg<N, K>, N]
+  ): ReactNode;
+}
+
+export type RawTranslationValuesArg =
+  | []
+  | [values: Record<string, string | number | boolean | Date>];
+
+export interface RawTranslateSignature<
+  D extends TranslationNamespace,
+  A extends TranslationNamespace
+> {
+  <K extends RawTranslationKey<D>>(
+    key: K,
+    ...values: RawTranslationValuesArg
+  ): RawTranslation<D, K>;
+  <N extends A, K extends RawTranslationKey<N>>(
+    key: K,
+    ...args: [...RawTranslationValuesArg, N]
+  ): RawTranslation<N, K>;
+}
+
+export interface ListTranslateSignature<
+  D extends TranslationNamespace,
+  A extends TranslationNamespace
+> {
+  <K extends ListTranslationKey<D>>(
+    key: K,
+    ...values: RawTranslationValuesArg
+  ): string[];
+  <N extends A, K extends ListTranslationKey<N>>(
+    key: K,
+    ...args: [...RawTranslationValuesArg, N]
+  ): string[];
+}
+
+export interface TranslateFunction<
+  D extends TranslationNamespace,
+  A extends TranslationNamespace = D
+> extends TranslateSignature<D, A, string> {
+  resolve: TranslateSignature<D, A, ResolvedTranslation>;
+  rich: RichTranslateSignature<D, A>;
+  raw: RawTranslateSignature<D, A>;
+  list: ListTranslateSignature<D, A>;
+}
+`;
+
+/**
+ * Collects the interpolation variables of every string in a namespace
+ *
+ * @param {object} obj - Translation object (or subtree)
+ * @param {string} prefix - Dot-notation path of obj
+ * @returns {Record<string, Record<string, string>>} Variable types keyed by dot-notation key
+ */
+function collectParams(obj, prefix) {
+  const params = {};
+  const pluralGroups = groupPluralKeys(obj);
+  const pluralKeys = new Set(
+    Object.values(pluralGroups).flatMap((group) => group.keys)
+  );
+
+  // A plural key takes the variables of all its variants, and always a count
+  for (const [base, group] of Object.entries(pluralGroups)) {
+    if (base.includes('.')) continue;
+    const placeholders = {};
+    for (const key of group.keys) {
+      Object.assign(placeholders, extractPlaceholders(obj[key]));
+    }
+    placeholders.count = 'number';
+    if (group.cardinal.length > 0 && group.ordinal.length > 0) {
+      // A trailing ? marks the variable as optional
+      placeholders['ordinal?'] = 'boolean';
+    }
+    params[prefix ? `${prefix}.${base}` : base] = placeholders;
+  }
+
+  for (const [key, value] of Object.entries(obj)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (pluralKeys.has(key) || key.includes('.')) {
+      continue;
+    } else if (typeof value === 'object' && value !== null) {
+      Object.assign(params, collectParams(value, fullKey));
+    } else if (typeof value === 'string') {
+      const placeholders = extractPlaceholders(value);
+      if (Object.keys(placeholders).length > 0) {
+        params[fullKey] = placeholders;
+      }
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Extracts the variables a message expects, with their TypeScript types
+ * Handles {{name}} placeholders and ICU arguments, including the ones
+ * nested inside plural and select branches
+ *
+ * @param {string} message - Translation value
+ * @returns {Record<string, string>} TypeScript type for each variable name
+ *
+ * @example
+ * extractPlaceholders('Hi {{name}}, {count, plural, one {# item} other {# items}}')
+ * // => { name: 'string | number', count: 'number' }
+ */
+function extractPlaceholders(message) {
+  const placeholders = {};
+  let pos = 0;
+
+  const addPlaceholder = (name, type) => {
+    // Prefer the narrower type when a variable is used more than once
+    if (!placeholders[name] || placeholders[name] === 'string | number') {
+      placeholders[name] = type;
+    }
+  };
+
+  const skipWhitespace = () => {
+    while (pos < message.length && /\s/.test(message[pos])) pos++;
+  };
+
+  const parseArgument = (depth, inPlural) => {
+    const match = /^\s*([^\s{}#,']+)\s*(?:,\s*(\w+)\s*)?/.exec(
+      message.slice(pos)
+    );
+    if (!match) return;
+    pos += match[0].length;
+    const [, name, type] = match;
+
+    if (type !== 'plural' && type !== 'selectordinal' && type !== 'select') {
+      addPlaceholder(
+        name,
+        type === 'number'
+          ? 'number'
+          : type === 'date' || type === 'time'
+            ? 'Date | number'
+            : 'string | number'
+      );
+      const end = message.indexOf('}', pos);
+      pos = end === -1 ? message.length : end + 1;
+      return;
+    }
+
+    addPlaceholder(name, type === 'select' ? 'string' : 'number');
+    if (message[pos] === ',') pos++;
+    const offset = /^\s*offset:\s*\d+/.exec(message.slice(pos));
+    if (offset) pos += offset[0].length;
+
+    while (pos < message.length) {
+      skipWhitespace();
+      if (message[pos] === '}') {
+        pos++;
+        return;
+      }
+      const selector = /^[^\s{}]+/.exec(message.slice(pos));
+      if (selector) pos += selector[0].length;
+      skipWhitespace();
+      if (message[pos] !== '{') return;
+      pos++;
+      parseMessage(depth + 1, inPlural || type !== 'select');
+      pos++;
+    }
+  };
+
+  const parseMessage = (depth, inPlural) => {
+    while (pos < message.length) {
+      const char = message[pos];
+      const next = message[pos + 1];
+
+      if (char === "'") {
+        if (next === "'") {
+          pos += 2;
+        } else if (next === '{' || next === '}' || (next === '#' && inPlural)) {
+          const end = message.indexOf("'", pos + 1);
+          pos = end === -1 ? message.length : end + 1;
+        } else {
+          pos++;
+        }
+      } else if (char === '{' && next === '{') {
+        const end = message.indexOf('}}', pos);
+        if (end === -1) return;
+        addPlaceholder(message.slice(pos + 2, end).trim(), 'string | number');
+        pos = end + 2;
+      } else if (char === '{') {
+        pos++;
+        parseArgument(depth, inPlural);
+      } else if (char === '}' && depth > 0) {
+        return;
+      } else {
+        pos++;
+      }
+    }
+  };
+
+  parseMessage(0, false);
+  return placeholders;
+}
+
+/**
+ * Collects the rich text tags of every string in a namespace
+ * Plural variants contribute their tags to the base key
+ *
+ * @param {object} obj - Translation object (or subtree)
+ * @param {string} prefix - Dot-notation path of obj
+ * @returns {Record<string, string[]>} Tag names keyed by dot-notation key
+ */
+function collectTags(obj, prefix) {
+  const tags = {};
+  const pluralGroups = groupPluralKeys(obj);
+
+  for (const [key, value] of Object.entries(obj)) {
+    if (key.includes('.')) continue;
+    const base =
+      Object.keys(pluralGroups).find((name) =>
+        pluralGroups[name].keys.includes(key)
+      ) ?? key;
+    const fullKey = prefix ? `${prefix}.${base}` : base;
+
+    if (typeof value === 'object' && value !== null) {
+      Object.assign(tags, collectTags(value, fullKey));
+    } else if (typeof value === 'string') {
+      const names = extractTags(value);
+      if (names.length > 0) {
+        tags[fullKey] = [...new Set([...(tags[fullKey] || []), ...names])];
+      }
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Extracts the names of the tags in a message, e.g. ['link'] for
+ * 'Read the <link>terms</link>'
+ *
+ * @param {string} message - Translation value
+ * @returns {string[]} Tag names, without duplicates
+ */
+function extractTags(message) {
+  const names = new Set();
+  for (const match of message.matchAll(/<([A-Za-z][\w-]*)\s*\/?>/g)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
 /**
  * Generates the default translations TypeScript file from JSON files
  * This ensures the hardcoded translations stay in sync
  *
  * @param {string} localesDir - Path to the locales directory
  * @param {string} outputPath - Path for the generated file
+ * @param {{ quiet?: boolean }} [options] - `quiet` hides progress messages
  */
-function generateDefaultTranslations(localesDir, outputPath) {
-  const files = fs.readdirSync(localesDir);
-  const namespaces = files
-    .filter((file) => file.endsWith('.json'))
-    .map((file) => path.basename(file, '.json'));
-
-  // Build translations object from JSON files
-  const translations = {};
-  for (const namespace of namespaces) {
-    const filePath = path.join(localesDir, `${namespace}.json`);
-    const content = fs.readFileSync(filePath, 'utf8');
-    translations[namespace] = JSON.parse(content);
-  }
+function generateDefaultTranslations(
+  localesDir,
+  outputPath,
+  { quiet = false } = {}
+) {
+  writeFileAtomic(
+    outputPath,
+    renderDefaultTranslations(readNamespaces(localesDir), localesDir)
+  );
+  if (!quiet) console.log(`✅ Generated default translations at ${outputPath}`);
+}
 
-  // Generate the TypeScript file
+/**
+ * Renders the default translations file
+ *
+ * @param {Record<string, object>} translations - Parsed translations keyed by namespace
+ * @param {string} localesDir - Source directory, mentioned in the header
+ * @returns {string} Contents of the default translations file
+ */
+function renderDefaultTranslations(translations, localesDir) {
   let output = `// THIS FILE IS AUTO-GENERATED - DO NOT EDIT MANUALLY\n`;
   output += `// Generated from translation files in ${localesDir}\n`;
   output += `// To update, modify the JSON files and run the generation script\n\n`;
   output += `import { Translations } from '../types/translations';\n\n`;
   output += `// Default translations (bundled with the app)\n`;
-  output += `export const defaultTranslations: Translations = ${JSON.stringify(
+  // The types fold plural variants (items_one, items_other) into one key
+  output += `export const defaultTranslations = ${JSON.stringify(
     translations,
     null,
     2
-  )};\n`;
-
-  fs.writeFileSync(outputPath, output);
-  console.log(`✅ Generated default translations at ${outputPath}`);
+  )} as unknown as Translations;\n`;
+  return output;
 }
 
 module.exports = {
   generateTranslationTypes,
   generateDefaultTranslations,
+  readNamespaces,
+  readLanguages,
+  renderNamespaceTypes,
+  renderTranslationTypes,
+  writeTranslationTypes,
+  renderDefaultTranslations,
+  extractPlaceholders,
+  extractTags,
 };
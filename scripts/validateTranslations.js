@@ -0,0 +1,424 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const fs = require('fs');
+const path = require('path');
+const { groupPluralKeys, findMissingPluralCategories } = require('./plurals');
+const { extractPlaceholders } = require('./translationTypes');
+
+/**
+ * Default severity of each issue code
+ * Missing and extra content falls back at runtime, so it only warns;
+ * anything that renders wrong text is an error
+ */
+const DEFAULT_SEVERITY = {
+  'invalid-json': 'error',
+  'missing-namespace': 'warning',
+  'extra-namespace': 'warning',
+  'missing-key': 'warning',
+  'extra-key': 'warning',
+  'placeholder-mismatch': 'error',
+  'type-mismatch': 'error',
+  'empty-value': 'warning',
+  'missing-plural-category': 'warning',
+};
+
+/**
+ * Compares every language in a locales directory with the default language
+ *
+ * @param {string} localesDir - Path to the locales directory (e.g., 'public/locales')
+ * @param {string} defaultLanguage - Language the others are compared with
+ * @param {object} [options]
+ * @param {Record<string, 'error' | 'warning' | 'off'>} [options.severity] -
+ *   Severity overrides per issue code
+ * @param {'error' | 'warning'} [options.failOn] - Lowest severity that fails
+ *   the validation (default: 'error')
+ * @param {boolean} [options.silent] - Don't print the issues
+ * @returns {{ passed: boolean, errors: number, warnings: number, issues: Array<{ severity: string, code: string, language: string, namespace: string, key?: string, file: string, line?: number, column?: number, message: string }> }}
+ *
+ * @example
+ * const { passed, issues } = validateTranslations('public/locales', 'en', {
+ *   severity: { 'missing-key': 'error' },
+ * });
+ */
+function validateTranslations(
+  localesDir,
+  defaultLanguage,
+  { severity = {}, failOn = 'error', silent = false } = {}
+) {
+  const severities = { ...DEFAULT_SEVERITY, ...severity };
+  const issues = [];
+
+  const report = (code, details) => {
+    if (severities[code] === 'off') return;
+    issues.push({ severity: severities[code], code, ...details });
+  };
+
+  const languages = fs
+    .readdirSync(localesDir)
+    .filter((item) => fs.statSync(path.join(localesDir, item)).isDirectory());
+  if (!languages.includes(defaultLanguage)) {
+    throw new Error(
+      `Default language directory not found: ${path.join(localesDir, defaultLanguage)}`
+    );
+  }
+
+  // Parsed files of every language, keyed by namespace
+  const catalogs = {};
+  for (const language of languages) {
+    catalogs[language] = {};
+    const files = fs
+      .readdirSync(path.join(localesDir, language))
+      .filter((file) => file.endsWith('.json'));
+
+    for (const file of files) {
+      const namespace = path.basename(file, '.json');
+      const filePath = path.join(localesDir, language, file);
+      const text = fs.readFileSync(filePath, 'utf8');
+      try {
+        catalogs[language][namespace] = {
+          data: JSON.parse(text),
+          file: filePath,
+          lines: locateKeys(text),
+        };
+      } catch (error) {
+        report('invalid-json', {
+          language,
+          namespace,
+          file: filePath,
+          ...getErrorPosition(error, text),
+          message: `Invalid JSON: ${error.message}`,
+        });
+        // Leave it out of the comparison, without reporting it as missing
+        catalogs[language][namespace] = null;
+      }
+    }
+  }
+
+  const reference = catalogs[defaultLanguage];
+
+  for (const language of languages) {
+    const catalog = catalogs[language];
+
+    for (const [namespace, entry] of Object.entries(catalog)) {
+      if (!entry) continue;
+      const context = { language, namespace, file: entry.file };
+      const lineOf = (key) => entry.lines.get(key);
+
+      const missingCategories = findMissingPluralCategories(
+        language,
+        entry.data
+      );
+      for (const { key, type, missing } of missingCategories || []) {
+        report('missing-plural-category', {
+          ...context,
+          key,
+          line: lineOf(key),
+          message: `"${key}" is missing ${type} plural categories: ${missing.join(', ')}`,
+        });
+      }
+
+      if (language === defaultLanguage) {
+        forEachString(entry.data, '', (key, value) => {
+          if (value.trim() === '') {
+            report('empty-value', {
+              ...context,
+              key,
+              line: lineOf(key),
+              message: `"${key}" is empty`,
+            });
+          }
+        });
+        continue;
+      }
+
+      if (!(namespace in reference)) {
+        report('extra-namespace', {
+          ...context,
+          message: `Namespace "${namespace}" doesn't exist in ${defaultLanguage}`,
+        });
+        continue;
+      }
+      if (!reference[namespace]) continue;
+
+      compareObjects(reference[namespace].data, entry.data, '', {
+        report: (code, key, message, sourceKey = key) =>
+          report(code, {
+            ...context,
+            key,
+            line: lineOf(sourceKey),
+            message,
+          }),
+        defaultLanguage,
+      });
+    }
+
+    if (language === defaultLanguage) continue;
+    for (const namespace of Object.keys(reference)) {
+      if (!(namespace in catalog)) {
+        report('missing-namespace', {
+          language,
+          namespace,
+          file: path.join(localesDir, language, `${namespace}.json`),
+          message: `Namespace "${namespace}" is missing`,
+        });
+      }
+    }
+  }
+
+  const errors = issues.filter((issue) => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+  const passed = failOn === 'warning' ? issues.length === 0 : errors === 0;
+
+  if (!silent) {
+    for (const issue of issues) {
+      const location = `${path.relative(process.cwd(), issue.file)}${
+        issue.line ? `:${issue.line}` : ''
+      }`;
+      const print = issue.severity === 'error' ? console.error : console.warn;
+      print(
+        `${issue.severity === 'error' ? '❌' : '⚠️ '} ${location} ${issue.message} [${issue.code}]`
+      );
+    }
+  }
+
+  return { passed, errors, warnings, issues };
+}
+
+/**
+ * Compares one object of a translation with the same object in the default
+ * language. Plural variants are compared by their base key, since languages
+ * need different categories.
+ */
+function compareObjects(expected, actual, prefix, options) {
+  const { report, defaultLanguage } = options;
+  const expectedEntries = foldPluralKeys(expected);
+  const actualEntries = foldPluralKeys(actual);
+
+  for (const [name, expectedEntry] of Object.entries(expectedEntries)) {
+    const key = prefix ? `${prefix}.${name}` : name;
+    const actualEntry = actualEntries[name];
+
+    // Array items that aren't translated yet are null (see import)
+    if (
+      !actualEntry ||
+      (Array.isArray(actual) && actualEntry.kind === 'null')
+    ) {
+      report('missing-key', key, `"${key}" is missing`);
+      continue;
+    }
+
+    const sourceKey = prefix
+      ? `${prefix}.${actualEntry.sourceKey}`
+      : actualEntry.sourceKey;
+    if (expectedEntry.kind !== actualEntry.kind) {
+      report(
+        'type-mismatch',
+        key,
+        `"${key}" is ${describeKind(actualEntry.kind)}, but ${describeKind(expectedEntry.kind)} in ${defaultLanguage}`,
+        sourceKey
+      );
+      continue;
+    }
+
+    if (expectedEntry.kind === 'object' || expectedEntry.kind === 'array') {
+      compareObjects(expectedEntry.value, actualEntry.value, key, options);
+    } else if (expectedEntry.kind === 'string') {
+      if (actualEntry.strings.some((value) => value.trim() === '')) {
+        report('empty-value', key, `"${key}" is empty`, sourceKey);
+        continue;
+      }
+
+      const expectedNames = placeholderNames(expectedEntry);
+      const actualNames = placeholderNames(actualEntry);
+      const missing = expectedNames.filter(
+        (name) => !actualNames.includes(name)
+      );
+      const extra = actualNames.filter((name) => !expectedNames.includes(name));
+      if (missing.length > 0 || extra.length > 0) {
+        const parts = [];
+        if (missing.length > 0) parts.push(`missing ${missing.join(', ')}`);
+        if (extra.length > 0) parts.push(`unknown ${extra.join(', ')}`);
+        report(
+          'placeholder-mismatch',
+          key,
+          `"${key}" placeholders don't match ${defaultLanguage}: ${parts.join('; ')}`,
+          sourceKey
+        );
+      }
+    }
+  }
+
+  for (const [name, actualEntry] of Object.entries(actualEntries)) {
+    if (!(name in expectedEntries)) {
+      const key = prefix ? `${prefix}.${name}` : name;
+      report(
+        'extra-key',
+        key,
+        `"${key}" doesn't exist in ${defaultLanguage}`,
+        prefix ? `${prefix}.${actualEntry.sourceKey}` : actualEntry.sourceKey
+      );
+    }
+  }
+}
+
+/**
+ * Groups the children of an object by key, folding plural variants
+ * (items_one, items_other) into their base key (items)
+ */
+function foldPluralKeys(obj) {
+  const entries = {};
+  const pluralGroups = groupPluralKeys(obj);
+
+  for (const [base, group] of Object.entries(pluralGroups)) {
+    entries[base] = {
+      kind: 'string',
+      plural: true,
+      strings: group.keys.map((key) => obj[key]),
+      sourceKey: group.keys[0],
+    };
+  }
+
+  for (const [key, value] of Object.entries(obj)) {
+    if (Object.values(pluralGroups).some((group) => group.keys.includes(key))) {
+      continue;
+    }
+    const kind = getKind(value);
+    entries[key] = {
+      kind,
+      value,
+      strings: kind === 'string' ? [value] : [],
+      sourceKey: key,
+    };
+  }
+
+  return entries;
+}
+
+function placeholderNames(entry) {
+  const names = new Set();
+  for (const value of entry.strings) {
+    for (const name of Object.keys(extractPlaceholders(value))) {
+      names.add(name);
+    }
+  }
+  // Every plural variant gets count, whether or not its text shows it
+  if (entry.plural) names.delete('count');
+  return [...names].sort();
+}
+
+function getKind(value) {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function describeKind(kind) {
+  return kind === 'object' || kind === 'array' ? `an ${kind}` : `a ${kind}`;
+}
+
+/**
+ * Calls fn for every string in a translation object
+ */
+function forEachString(obj, prefix, fn) {
+  for (const [key, value] of Object.entries(obj)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === 'string') {
+      fn(fullKey, value);
+    } else if (typeof value === 'object' && value !== null) {
+      forEachString(value, fullKey, fn);
+    }
+  }
+}
+
+/**
+ * Finds the line of every key in a JSON document
+ *
+ * @param {string} text - Valid JSON
+ * @returns {Map<string, number>} 1-based line by dot-notation key
+ */
+function locateKeys(text) {
+  const lines = new Map();
+  let pos = 0;
+  let line = 1;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      if (text[pos] === '\n') line++;
+      pos++;
+    }
+  };
+
+  const readString = () => {
+    let end = pos + 1;
+    while (text[end] !== '"') {
+      end += text[end] === '\\' ? 2 : 1;
+    }
+    const value = JSON.parse(text.slice(pos, end + 1));
+    pos = end + 1;
+    return value;
+  };
+
+  const readValue = (prefix) => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      pos++;
+      skipWhitespace();
+      for (let index = 0; text[pos] !== close; index++) {
+        let key = String(index);
+        if (char === '{') {
+          skipWhitespace();
+          const keyLine = line;
+          key = readString();
+          lines.set(prefix ? `${prefix}.${key}` : key, keyLine);
+          skipWhitespace();
+          pos++; // :
+        }
+        readValue(prefix ? `${prefix}.${key}` : key);
+        skipWhitespace();
+        if (text[pos] === ',') pos++;
+        skipWhitespace();
+      }
+      pos++;
+    } else if (char === '"') {
+      readString();
+    } else {
+      while (pos < text.length && !/[\s,}\]]/.test(text[pos])) pos++;
+    }
+  };
+
+  readValue('');
+  return lines;
+}
+
+/**
+ * Gets the line and column of a JSON.parse error
+ */
+function getErrorPosition(error, text) {
+  const lineColumn = /line (\d+) column (\d+)/.exec(error.message);
+  if (lineColumn) {
+    return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+  }
+
+  const position = /position (\d+)/.exec(error.message);
+  if (position) {
+    const before = text.slice(0, Number(position[1])).split('\n');
+    return {
+      line: before.length,
+      column: before[before.length - 1].length + 1,
+    };
+  }
+
+  // Unexpected end of input
+  if (/end of (JSON )?input/i.test(error.message)) {
+    const lines = text.split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+  return {};
+}
+
+module.exports = {
+  validateTranslations,
+  DEFAULT_SEVERITY,
+};
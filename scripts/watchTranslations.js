@@ -0,0 +1,282 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const fs = require('fs');
+const path = require('path');
+const {
+  readNamespaces,
+  renderNamespaceTypes,
+  writeTranslationTypes,
+  readLanguages,
+  renderDefaultTranslations,
+} = require('./translationTypes');
+const {
+  hashTranslations,
+  writeHashedFile,
+  writeBundle,
+  writeManifest,
+  normalizeBundles,
+  getBundle,
+} = require('./hashTranslations');
+const { writeFileAtomic } = require('./fileUtils');
+
+/**
+ * Generates types, default translations and hashed files, then keeps them
+ * up to date while the locale files change
+ *
+ * Changes are batched: after `delay` ms without further changes, only the
+ * namespaces that changed are parsed again and rehashed, and every output
+ * is written once, atomically. Files that don't parse (e.g. while an editor
+ * is saving) are reported and skipped until the next change.
+ *
+ * @param {object} paths - Same shape as the CLI config
+ * @param {string} paths.localesDir - Path to the locales directory (e.g., 'public/locales')
+ * @param {string} paths.defaultLanguage - Language the types are generated from
+ * @param {string} paths.typesOutput - Path for the generated types file
+ * @param {string} paths.defaultTranslationsOutput - Path for the default translations file
+ * @param {string} paths.hashedDir - Path to the hashed directory
+ * @param {string} paths.manifestPath - Path for the JSON manifest
+ * @param {string} paths.tsManifestPath - Path for the TypeScript manifest
+ * @param {{ keep?: number, algorithm?: string, length?: number, bundles?: Record<string, string[]> | string[] }} [paths.hash] -
+ *   Options for hashTranslations
+ * @param {{ split?: boolean }} [paths.types] - Options for generateTranslationTypes
+ * @param {{ quiet?: boolean, delay?: number }} [options] - `quiet` hides
+ *   progress messages; `delay` is the batching window (default: 100 ms)
+ * @returns {{ close: () => void }} Stops watching
+ */
+function watchTranslations(paths, { quiet = false, delay = 100 } = {}) {
+  const {
+    localesDir,
+    defaultLanguage,
+    typesOutput,
+    defaultTranslationsOutput,
+    hashedDir,
+    manifestPath,
+    tsManifestPath,
+    hash = {},
+    types: typeOptions = {},
+  } = paths;
+  const log = quiet ? () => {} : console.log;
+  const defaultDir = path.join(localesDir, defaultLanguage);
+  const groups = normalizeBundles(hash.bundles ?? {});
+  const sorted = (obj) =>
+    Object.fromEntries(
+      Object.keys(obj)
+        .sort()
+        .map((key) => [key, obj[key]])
+    );
+
+  // Initial build; afterwards, everything is kept in memory
+  const catalog = readNamespaces(defaultDir);
+  const fragments = {};
+  const renderFragment = (namespace, translations) => {
+    fragments[namespace] = renderNamespaceTypes(namespace, translations);
+    for (const warning of fragments[namespace].warnings) {
+      console.warn(`⚠️  ${warning}`);
+    }
+  };
+  for (const [namespace, translations] of Object.entries(catalog)) {
+    renderFragment(namespace, translations);
+  }
+  let languages = readLanguages(localesDir);
+  const writeTypes = () =>
+    writeTranslationTypes(sorted(fragments), defaultDir, typesOutput, {
+      ...typeOptions,
+      languages,
+    });
+  let defaults = renderDefaultTranslations(catalog, defaultDir);
+  writeTypes();
+  writeFileAtomic(defaultTranslationsOutput, defaults);
+  const manifest = hashTranslations(
+    localesDir,
+    hashedDir,
+    manifestPath,
+    tsManifestPath,
+    { ...hash, quiet: true }
+  );
+  log(`👀 Watching ${localesDir}`);
+
+  const pending = new Set();
+  const watchers = new Map();
+  let timer;
+
+  const queue = (lang, file) => {
+    pending.add(`${lang}/${file}`);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        flush();
+      } catch (error) {
+        console.error('❌ Failed to update translations:', error);
+      }
+    }, delay);
+  };
+
+  const flush = () => {
+    const changes = [...pending];
+    pending.clear();
+    let namespacesChanged = false;
+    let manifestChanged = false;
+    const bundlesChanged = new Set();
+
+    const setEntry = (key, value) => {
+      if (manifest[key] === value) return;
+      if (value === undefined) {
+        delete manifest[key];
+      } else {
+        manifest[key] = value;
+      }
+      manifestChanged = true;
+    };
+
+    for (const change of changes) {
+      const [lang, file] = change.split('/');
+      const namespace = path.basename(file, '.json');
+      const key = `${lang}/${namespace}`;
+      const filePath = path.join(localesDir, lang, file);
+
+      const group = getBundle(groups, namespace);
+
+      if (!fs.existsSync(filePath)) {
+        if (group) {
+          bundlesChanged.add(`${lang}/${group}`);
+        } else {
+          setEntry(key, undefined);
+        }
+        if (lang === defaultLanguage && namespace in catalog) {
+          delete catalog[namespace];
+          delete fragments[namespace];
+          namespacesChanged = true;
+        }
+        log(`🗑️  Removed ${key}`);
+        continue;
+      }
+
+      let content;
+      let translations;
+      try {
+        content = fs.readFileSync(filePath);
+        translations = JSON.parse(content.toString('utf8'));
+      } catch (error) {
+        console.error(`❌ Skipped ${key}: ${error.message}`);
+        continue;
+      }
+
+      if (lang === defaultLanguage) {
+        catalog[namespace] = translations;
+        renderFragment(namespace, translations);
+        namespacesChanged = true;
+      }
+
+      if (group) {
+        bundlesChanged.add(`${lang}/${group}`);
+      } else {
+        const { hashedFile } = writeHashedFile(
+          content,
+          hashedDir,
+          lang,
+          namespace,
+          hash
+        );
+        setEntry(key, hashedFile);
+      }
+      log(`🔄 Updated ${key}`);
+    }
+
+    for (const id of bundlesChanged) {
+      const [lang, group] = id.split('/');
+      let bundle;
+      try {
+        bundle = writeBundle(
+          localesDir,
+          hashedDir,
+          lang,
+          group,
+          groups[group],
+          hash
+        );
+      } catch (error) {
+        console.error(`❌ Skipped ${id} bundle: ${error.message}`);
+        continue;
+      }
+      for (const namespace of groups[group]) {
+        const key = `${lang}/${namespace}`;
+        setEntry(key, bundle?.entries[key]);
+      }
+    }
+
+    const nextLanguages = readLanguages(localesDir);
+    if (namespacesChanged || nextLanguages.join() !== languages.join()) {
+      languages = nextLanguages;
+      writeTypes();
+      const nextDefaults = renderDefaultTranslations(
+        sorted(catalog),
+        defaultDir
+      );
+      if (nextDefaults !== defaults) {
+        writeFileAtomic(defaultTranslationsOutput, nextDefaults);
+        defaults = nextDefaults;
+      }
+    }
+
+    if (manifestChanged) {
+      // Replaced hashed files are left for the next build to prune: a save
+      // isn't a deploy, so it mustn't use up a `keep` generation
+      writeManifest(manifest, manifestPath, tsManifestPath);
+    }
+  };
+
+  const watchLanguage = (lang) => {
+    const watcher = fs.watch(path.join(localesDir, lang), (event, file) => {
+      if (file && file.endsWith('.json')) queue(lang, file);
+    });
+    watcher.on('error', () => unwatchLanguage(lang));
+    watchers.set(lang, watcher);
+  };
+
+  const unwatchLanguage = (lang) => {
+    watchers.get(lang)?.close();
+    watchers.delete(lang);
+  };
+
+  // Picks up added and removed language directories
+  const syncLanguages = () => {
+    const languages = fs.existsSync(localesDir)
+      ? fs
+          .readdirSync(localesDir, { withFileTypes: true })
+          .filter((entry) => entry.isDirectory())
+          .map((entry) => entry.name)
+      : [];
+
+    for (const lang of languages) {
+      if (watchers.has(lang)) continue;
+      watchLanguage(lang);
+      for (const file of fs.readdirSync(path.join(localesDir, lang))) {
+        if (file.endsWith('.json')) queue(lang, file);
+      }
+    }
+    for (const lang of [...watchers.keys()]) {
+      if (!languages.includes(lang)) unwatchLanguage(lang);
+    }
+    for (const key of Object.keys(manifest)) {
+      const [lang, namespace] = key.split('/');
+      if (!languages.includes(lang)) queue(lang, `${namespace}.json`);
+    }
+  };
+
+  const rootWatcher = fs.watch(localesDir, syncLanguages);
+  syncLanguages();
+  // The initial build already covers the existing files
+  pending.clear();
+  clearTimeout(timer);
+
+  return {
+    close: () => {
+      clearTimeout(timer);
+      rootWatcher.close();
+      for (const lang of [...watchers.keys()]) unwatchLanguage(lang);
+    },
+  };
+}
+
+module.exports = {
+  watchTranslations,
+};
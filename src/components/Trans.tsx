@@ -0,0 +1,51 @@
+import React, { ReactNode, useMemo } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import {
+  RichTranslationValues,
+  TranslationKey,
+  TranslationNamespace,
+} from '../types/translations';
+
+export type TransProps<
+  N extends TranslationNamespace,
+  K extends TranslationKey<N>
+> = {
+  /** Translation key */
+  i18nKey: K;
+  /** Namespace of the key (default: 'common') */
+  ns?: N;
+} & ({} extends RichTranslationValues<N, K>
+  ? { values?: RichTranslationValues<N, K> }
+  : { values: RichTranslationValues<N, K> });
+
+/**
+ * Renders a translation whose text contains tags or React node values
+ * Each tag is rendered by the element or function passed under its name;
+ * tags without one are shown as text, never parsed as HTML
+ *
+ * @example
+ * ```tsx
+ * // "terms": "I accept the <link>terms</link>, {{name}}"
+ * <Trans
+ *   i18nKey="terms"
+ *   ns="legal"
+ *   values={{
+ *     link: <a href="/terms" />,
+ *     name: <b>{user.name}</b>,
+ *   }}
+ * />
+ * ```
+ */
+export function Trans<
+  N extends TranslationNamespace,
+  K extends TranslationKey<N>
+>({ i18nKey, ns, values }: TransProps<N, K>) {
+  const namespaces = useMemo(() => [ns ?? 'common'] as [N], [ns]);
+  const { t } = useTranslation(namespaces);
+  const rich = t.rich as unknown as (
+    key: string,
+    ...args: unknown[]
+  ) => ReactNode;
+
+  return <>{rich(i18nKey, ...(values ? [values] : []))}</>;
+}
@@ -0,0 +1,28 @@
+import React from 'react';
+import { getPreloadLinks, PreloadLinksOptions } from '../utils/preload';
+
+/**
+ * Renders `<link rel="preload" as="fetch">` elements for namespace files
+ * Place it in the document head (e.g. a Next.js layout or _document)
+ *
+ * @example
+ * ```tsx
+ * <head>
+ *   <TranslationPreloadLinks
+ *     languages={[lang]}
+ *     namespaces={['common', 'home']}
+ *     defaultLanguage="en"
+ *     translationManifest={translationManifest}
+ *   />
+ * </head>
+ * ```
+ */
+export function TranslationPreloadLinks(props: PreloadLinksOptions) {
+  return (
+    <>
+      {getPreloadLinks(props).map((link) => (
+        <link key={link.href} {...link} />
+      ))}
+    </>
+  );
+}
@@ -5,37 +5,163 @@ import React, {
   ReactNode,
   useMemo,
   useCallback,
+  useRef,
 } from 'react';
 import {
+  ResolvedTranslation,
   SupportedLanguage,
-  TranslationKey,
+  TranslateFunction,
   TranslationNamespace,
   Translations,
 } from '../types/translations';
+import { LanguageConfig } from '../types/languages';
+import { FallbackLanguages, getFallbackChain } from '../utils/fallbackChain';
+import { createNamespaceLoader, isAbortError } from '../utils/namespaceLoader';
+import { fetchBackend, TranslationBackend } from '../utils/backends';
+import {
+  getTranslationValue,
+  parseTranslateArgs,
+  resolveRawTranslation,
+  resolveTranslation,
+  toStringList,
+} from '../utils/translationHelpers';
+import {
+  applyMissingKeyStrategy,
+  createMissingKeyTracker,
+  MissingKey,
+  MissingKeyHandler,
+  MissingKeyStrategy,
+} from '../utils/missingKeys';
+import { formatRichText, RichValues } from '../utils/richText';
+import {
+  detectLanguage,
+  LanguageDetectionResult,
+  LanguageDetector,
+} from '../utils/languageDetection';
+import {
+  localStoragePersistence,
+  PersistenceAdapter,
+  readPersistedLanguage,
+  writePersistedLanguage,
+} from '../utils/persistence';
+import { getTextDirection, TextDirection } from '../utils/textDirection';
 
 export interface TranslationContextType {
   language: SupportedLanguage;
   setLanguage: (lang: SupportedLanguage) => void;
-  t: <N extends TranslationNamespace>(
-    key: TranslationKey<N>,
-    namespace?: N
-  ) => string;
+  /** Text direction of the current language */
+  dir: TextDirection;
+  t: TranslateFunction<TranslationNamespace>;
   isLoading: boolean;
   loadNamespaces: (namespaces: TranslationNamespace[]) => void;
+  /** How the initial language was chosen */
+  detection: LanguageDetectionResult;
+  /** Whether useTranslation suspends by default */
+  suspense: boolean;
+  /**
+   * Starts loading the namespaces for every language in the fallback chain
+   * Returns a promise while any of them is missing, undefined once all are available
+   */
+  ensureNamespaces: (
+    namespaces: TranslationNamespace[]
+  ) => Promise<void> | undefined;
+  /**
+   * Starts loading namespaces of a language ahead of time
+   * The data is used as soon as that language is selected
+   */
+  prefetch: (
+    language: SupportedLanguage,
+    namespaces: TranslationNamespace[]
+  ) => Promise<void>;
+  /**
+   * Every missing key reported during the session, for handing to
+   * translators. Only collected in development; empty in production.
+   */
+  getMissingKeys: () => MissingKey[];
 }
 
+const defaultPersistence = localStoragePersistence();
+const emptyManifest: Record<string, string> = {};
+
 export const TranslationContext = createContext<
   TranslationContextType | undefined
 >(undefined);
 
+/**
+ * Translations loaded outside the provider, e.g. on the server
+ * Plain JSON, so it can be passed from a Server Component or page props
+ */
+export interface TranslationState {
+  /** Language the state was loaded for */
+  language: SupportedLanguage;
+  /** Loaded namespaces of each non-default language in the fallback chain */
+  translations: Record<string, Partial<Translations>>;
+}
+
 export interface TranslationProviderProps {
   children: ReactNode;
   defaultLanguage: SupportedLanguage;
   defaultTranslations: Translations;
-  translationManifest: Record<string, string>;
+  /** Manifest generated by hashTranslations, used by the default backend */
+  translationManifest?: Record<string, string>;
   isSupportedLanguage: (lang: string) => lang is SupportedLanguage;
   localesPath?: string;
   localesHashedPath?: string;
+  /**
+   * Where non-default languages are loaded from
+   * Defaults to fetching the files in translationManifest, localesPath and
+   * localesHashedPath. Create it outside of render so it stays the same
+   * object; a new backend starts with an empty cache.
+   */
+  backend?: TranslationBackend;
+  /**
+   * Languages a missing key falls back to, per language
+   * Defaults to the supported base languages (pt-BR → pt), then defaultLanguage
+   */
+  fallbackLanguages?: FallbackLanguages;
+  /**
+   * Detectors for the initial language, highest priority first
+   * Only consulted when no language has been saved yet
+   */
+  detectors?: LanguageDetector[];
+  /**
+   * Where the chosen language is saved
+   * Defaults to localStorage under the key 'language'
+   */
+  persistence?: PersistenceAdapter;
+  /**
+   * Translations loaded on the server (see `getTranslations` in
+   * `@mffl/use-translation/server`). Its language wins over the saved and
+   * detected ones, and its namespaces are never fetched again.
+   */
+  initialState?: TranslationState;
+  /**
+   * Make useTranslation suspend until its namespaces are loaded, instead of
+   * rendering keys or default-language text in the meantime
+   * Can also be enabled per call with useTranslation(ns, { suspense: true })
+   */
+  suspense?: boolean;
+  /**
+   * Called once per language/namespace/key that is missing in the current
+   * language, i.e. served from the default language or not found at all
+   * Without it, misses are logged in development
+   */
+  onMissingKey?: MissingKeyHandler;
+  /**
+   * What t() returns for a missing key: the default-language text
+   * ('fallback', the default), the key, or a visible 'marker'
+   */
+  missingKeyStrategy?: MissingKeyStrategy;
+  /**
+   * Language configurations, e.g. from createLanguageConfig. A `dir` set
+   * there overrides the direction derived from the language code
+   */
+  languages?: readonly LanguageConfig[];
+  /**
+   * Keep the `lang` and `dir` attributes of `<html>` in sync with the
+   * current language. Off by default, for apps that set them elsewhere
+   */
+  syncDocumentAttributes?: boolean;
 }
 
 /**
@@ -43,7 +169,11 @@ export interface TranslationProviderProps {
  *
  * @example
  * ```tsx
- * import { TranslationProvider } from '@mffl/use-translation';
+ * import {
+ *   TranslationProvider,
+ *   queryDetector,
+ *   navigatorDetector,
+ * } from '@mffl/use-translation';
  * import { defaultTranslations } from './translations/defaultTranslations';
  * import { translationManifest } from './translations/translationManifest';
  *
@@ -54,6 +184,7 @@ export interface TranslationProviderProps {
  *       defaultTranslations={defaultTranslations}
  *       translationManifest={translationManifest}
  *       isSupportedLanguage={(lang) => ['en', 'es', 'fr'].includes(lang)}
+ *       detectors={[queryDetector(), navigatorDetector()]}
  *     >
  *       {children}
  *     </TranslationProvider>
@@ -65,100 +196,291 @@ export const TranslationProvider: React.FC<TranslationProviderProps> = ({
   children,
   defaultLanguage,
   defaultTranslations,
-  translationManifest,
+  translationManifest = emptyManifest,
   isSupportedLanguage,
   localesPath = '/locales',
   localesHashedPath = '/locales-hashed',
+  backend,
+  fallbackLanguages,
+  detectors = [],
+  persistence = defaultPersistence,
+  initialState,
+  suspense = false,
+  onMissingKey,
+  missingKeyStrategy = 'fallback',
+  languages,
+  syncDocumentAttributes = false,
 }) => {
-  // Initialize language from localStorage if available, otherwise use default
-  const getInitialLanguage = (): SupportedLanguage => {
-    if (typeof window !== 'undefined') {
-      const savedLanguage = localStorage.getItem('language');
-      if (savedLanguage && isSupportedLanguage(savedLanguage)) {
-        return savedLanguage;
-      }
+  // Initialize language from the saved choice if available, then from the
+  // detectors, otherwise use default
+  const getInitialLanguage = (): LanguageDetectionResult => {
+    if (initialState && isSupportedLanguage(initialState.language)) {
+      return { language: initialState.language, source: 'server' };
+    }
+    const savedLanguage = readPersistedLanguage(persistence);
+    if (savedLanguage && isSupportedLanguage(savedLanguage)) {
+      return { language: savedLanguage, source: 'storage' };
     }
-    return defaultLanguage;
+    return (
+      detectLanguage(detectors, isSupportedLanguage) ?? {
+        language: defaultLanguage,
+        source: 'default',
+      }
+    );
   };
 
-  const [language, setLanguage] =
-    useState<SupportedLanguage>(getInitialLanguage);
-  const [translations, setTranslations] =
-    useState<Partial<Translations>>(defaultTranslations);
+  const [detection] = useState<LanguageDetectionResult>(getInitialLanguage);
+  const [language, setLanguage] = useState<SupportedLanguage>(
+    detection.language
+  );
+  // Loaded translations of the non-default languages, keyed by language
+  const [translations, setTranslations] = useState<
+    Record<string, Partial<Translations>>
+  >(() => initialState?.translations ?? {});
   const [loadedNamespaces, setLoadedNamespaces] = useState<Set<string>>(
-    new Set(Object.keys(defaultTranslations))
+    () =>
+      new Set([
+        ...Object.keys(defaultTranslations),
+        ...Object.values(initialState?.translations ?? {}).flatMap(Object.keys),
+      ])
   );
   const [isLoading, setIsLoading] = useState(false);
+  // "language/namespace" pairs already requested, so nothing is fetched twice
+  const [requested] = useState(
+    () =>
+      new Set(
+        Object.entries(initialState?.translations ?? {}).flatMap(
+          ([lang, namespaces]) =>
+            Object.keys(namespaces).map((namespace) => `${lang}/${namespace}`)
+        )
+      )
+  );
+
+  // Languages each key is resolved through, e.g. pt-BR → pt → en
+  const fallbackChain = useMemo(
+    () =>
+      getFallbackChain(
+        language,
+        defaultLanguage,
+        isSupportedLanguage,
+        fallbackLanguages
+      ),
+    [language, defaultLanguage, isSupportedLanguage, fallbackLanguages]
+  );
+
+  // Text direction of the current language, from the config or Intl.Locale
+  const dir = useMemo(
+    () => getTextDirection(language, languages),
+    [language, languages]
+  );
 
-  // Save language selection to localStorage whenever it changes
+  // Mirror the language on <html lang dir> for screen readers and crawlers
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('language', language);
+    if (!syncDocumentAttributes || typeof document === 'undefined') {
+      return;
     }
-  }, [language]);
+    const root = document.documentElement;
+    root.lang = language;
+    root.dir = dir;
+  }, [syncDocumentAttributes, language, dir]);
 
-  // Helper function to load translations for specified namespaces
-  const loadTranslationsForNamespaces = useCallback(
-    async (namespacesToLoad: string[]) => {
-      if (language === defaultLanguage) {
-        // For default language, we already have all translations loaded
-        return;
-      }
+  // Save language selection whenever it changes, but not the initial one,
+  // so a detected language isn't mistaken for a choice on the next visit
+  const persistedLanguageRef = useRef(language);
+  useEffect(() => {
+    if (language !== persistedLanguageRef.current) {
+      persistedLanguageRef.current = language;
+      writePersistedLanguage(persistence, language);
+    }
+  }, [language, persistence]);
+
+  // Commit promises of the language/namespace pairs being loaded
+  const [loading] = useState(() => new Map<string, Promise<void>>());
 
+  // Shared loader: one request per language/namespace pair, cancellable
+  const loader = useMemo(() => {
+    const source =
+      backend ??
+      fetchBackend({ translationManifest, localesPath, localesHashedPath });
+    return createNamespaceLoader((targetLanguage, namespace, signal) =>
+      source.load(targetLanguage, namespace, { signal })
+    );
+  }, [backend, translationManifest, localesPath, localesHashedPath]);
+
+  // Languages whose results may still be committed
+  const fallbackChainRef = useRef(fallbackChain);
+  fallbackChainRef.current = fallbackChain;
+  const activeLoadsRef = useRef(0);
+
+  // Cancel requests for languages that left the fallback chain
+  useEffect(() => {
+    loader.abortExcept(fallbackChain);
+  }, [loader, fallbackChain]);
+
+  // Fetches namespaces of one language and commits them to state, unless
+  // the language has left the fallback chain in the meantime
+  const commitNamespaces = useCallback(
+    async (pending: string[], targetLanguage: SupportedLanguage) => {
+      activeLoadsRef.current++;
       setIsLoading(true);
       try {
-        const newTranslations: Partial<Translations> = {};
-
-        for (const namespace of namespacesToLoad) {
-          let url = `${localesPath}/${language}/${namespace}.json`; // Default fallback
+        // Fetch all namespaces in parallel
+        const results = await Promise.allSettled(
+          pending.map((namespace) => loader.load(targetLanguage, namespace))
+        );
 
-          // Use the pre-built manifest to get the hashed filename
-          const manifestKey = `${language}/${namespace}`;
-          const hashedFilename = translationManifest[manifestKey];
+        // Drop results for a language the user has switched away from
+        if (!fallbackChainRef.current.includes(targetLanguage)) {
+          pending.forEach((namespace) =>
+            requested.delete(`${targetLanguage}/${namespace}`)
+          );
+          return;
+        }
 
-          if (hashedFilename) {
-            url = `${localesHashedPath}/${hashedFilename}`;
-          }
+        const newTranslations: Partial<Translations> = {};
+        results.forEach((result, index) => {
+          const namespace = pending[index] as TranslationNamespace;
 
-          try {
-            const response = await fetch(url);
-            if (response.ok) {
-              const data = await response.json();
-              newTranslations[namespace as TranslationNamespace] = data;
-            } else {
-              // Fallback to default language if translation not found
-              newTranslations[namespace as TranslationNamespace] =
-                defaultTranslations[
-                  namespace as TranslationNamespace
-                ] as unknown as any;
+          if (result.status === 'rejected') {
+            if (isAbortError(result.reason)) {
+              // Cancelled, so it may be requested again later
+              requested.delete(`${targetLanguage}/${namespace}`);
+              return;
             }
-          } catch (fetchError) {
             console.error(
-              `Failed to load translation for ${namespace}:`,
-              fetchError
+              `Failed to load translation for ${targetLanguage}/${namespace}:`,
+              result.reason
             );
-            // Fallback to default language
-            newTranslations[namespace as TranslationNamespace] =
-              defaultTranslations[
-                namespace as TranslationNamespace
-              ] as unknown as any;
           }
-        }
 
-        setTranslations((prev) => ({ ...prev, ...newTranslations }));
+          // A namespace that can't be loaded is stored empty, so its keys
+          // resolve through the rest of the fallback chain
+          newTranslations[namespace] =
+            (result.status === 'fulfilled' && result.value) || {};
+        });
+
+        setTranslations((prev) => ({
+          ...prev,
+          [targetLanguage]: { ...prev[targetLanguage], ...newTranslations },
+        }));
       } catch (error) {
         console.error('Failed to load translations:', error);
       } finally {
-        setIsLoading(false);
+        activeLoadsRef.current--;
+        setIsLoading(activeLoadsRef.current > 0);
+      }
+    },
+    [loader, requested]
+  );
+
+  // Helper function to load translations for specified namespaces
+  // Resolves once they are committed, including ones requested earlier
+  const loadTranslationsForNamespaces = useCallback(
+    (
+      namespacesToLoad: string[],
+      targetLanguage: SupportedLanguage = language
+    ): Promise<void> => {
+      if (targetLanguage === defaultLanguage) {
+        // For default language, we already have all translations loaded
+        return Promise.resolve();
+      }
+
+      const inFlight = namespacesToLoad
+        .map((namespace) => loading.get(`${targetLanguage}/${namespace}`))
+        .filter((promise): promise is Promise<void> => promise !== undefined);
+      const pending = namespacesToLoad.filter(
+        (namespace) => !requested.has(`${targetLanguage}/${namespace}`)
+      );
+      if (pending.length === 0) {
+        return Promise.all(inFlight).then(() => undefined);
+      }
+      pending.forEach((namespace) =>
+        requested.add(`${targetLanguage}/${namespace}`)
+      );
+
+      const promise = commitNamespaces(pending, targetLanguage);
+      pending.forEach((namespace) =>
+        loading.set(`${targetLanguage}/${namespace}`, promise)
+      );
+      promise.then(() =>
+        pending.forEach((namespace) => {
+          if (loading.get(`${targetLanguage}/${namespace}`) === promise) {
+            loading.delete(`${targetLanguage}/${namespace}`);
+          }
+        })
+      );
+
+      return Promise.all([promise, ...inFlight]).then(() => undefined);
+    },
+    [language, defaultLanguage, commitNamespaces, requested, loading]
+  );
+
+  // Warm the loader cache for a language, e.g. when hovering it in a switcher
+  const prefetch = useCallback(
+    async (
+      targetLanguage: SupportedLanguage,
+      namespaces: TranslationNamespace[]
+    ): Promise<void> => {
+      if (targetLanguage === defaultLanguage) return;
+
+      // Languages in the current chain are committed right away
+      if (fallbackChainRef.current.includes(targetLanguage)) {
+        return loadTranslationsForNamespaces(namespaces, targetLanguage);
       }
+      await Promise.allSettled(
+        namespaces.map((namespace) =>
+          loader.load(targetLanguage, namespace, { prefetch: true })
+        )
+      );
+    },
+    [defaultLanguage, loadTranslationsForNamespaces, loader]
+  );
+
+  // Suspense promises, reused across renders until they settle
+  const suspensePromisesRef = useRef(new Map<string, Promise<void>>());
+
+  // Returns a promise while any language of the fallback chain lacks one of
+  // the namespaces, and undefined once they are all available
+  const ensureNamespaces = useCallback(
+    (namespaces: TranslationNamespace[]): Promise<void> | undefined => {
+      const missing = fallbackChain
+        .filter((lang) => lang !== defaultLanguage)
+        .map(
+          (lang) =>
+            [
+              lang,
+              namespaces.filter((ns) => translations[lang]?.[ns] === undefined),
+            ] as const
+        )
+        .filter(([, missingNamespaces]) => missingNamespaces.length > 0);
+      if (missing.length === 0) {
+        return undefined;
+      }
+
+      const cacheKey = JSON.stringify(missing);
+      let promise = suspensePromisesRef.current.get(cacheKey);
+      if (!promise) {
+        // Deferred, since this runs while rendering
+        promise = Promise.resolve()
+          .then(() =>
+            Promise.all(
+              missing.map(([lang, missingNamespaces]) =>
+                loadTranslationsForNamespaces([...missingNamespaces], lang)
+              )
+            )
+          )
+          .then(() => {
+            suspensePromisesRef.current.delete(cacheKey);
+          });
+        suspensePromisesRef.current.set(cacheKey, promise);
+      }
+      return promise;
     },
     [
-      language,
+      fallbackChain,
       defaultLanguage,
-      translationManifest,
-      localesPath,
-      localesHashedPath,
-      defaultTranslations,
+      translations,
+      loadTranslationsForNamespaces,
     ]
   );
 
@@ -176,70 +498,185 @@ export const TranslationProvider: React.FC<TranslationProviderProps> = ({
     [loadedNamespaces, loadTranslationsForNamespaces]
   );
 
-  // Load translations when language or namespaces change
+  // Load translations for all currently tracked namespaces when language changes
   useEffect(() => {
-    // If we're using default language, use the default translations
-    if (language === defaultLanguage) {
-      setTranslations(defaultTranslations);
-      return;
-    }
-
-    // For other languages, load translations for all currently tracked namespaces
     const namespacesToLoad = Array.from(loadedNamespaces);
     loadTranslationsForNamespaces(namespacesToLoad);
-  }, [language, defaultLanguage, loadTranslationsForNamespaces, defaultTranslations]);
+  }, [language, loadTranslationsForNamespaces]);
 
-  // Get translation by key
-  const t = useMemo(
-    () =>
-      <N extends TranslationNamespace>(
-        key: TranslationKey<N>,
-        namespace: N = 'common' as N
-      ): string => {
-        try {
-          // Ensure the namespace is loaded
-          if (!loadedNamespaces.has(namespace)) {
-            // Add to set of namespaces that need loading
-            setLoadedNamespaces((prev) => new Set([...prev, namespace]));
-
-            // For immediate loading, though the effect will handle it later
-            if (language !== defaultLanguage) {
-              loadTranslationsForNamespaces([namespace]);
-            }
-          }
+  // Missing keys, reported once each; the latest onMissingKey is used
+  const onMissingKeyRef = useRef(onMissingKey);
+  onMissingKeyRef.current = onMissingKey;
+  const [missingKeys] = useState(() =>
+    createMissingKeyTracker(() => onMissingKeyRef.current)
+  );
 
-          // Get the translation value using the key path (e.g. "site.title")
-          const keyPath = key.split('.');
-          let value: any = translations[namespace];
+  // Look a key up through the fallback chain with `find`, loading the
+  // namespaces it needs, and report it when it's missing
+  const lookup = useCallback(
+    <R extends { language: string | undefined }>(
+      key: string,
+      namespace: string,
+      find: (getNamespaceTranslations: (lang: string) => unknown) => R
+    ): { resolved: R; missing: boolean } => {
+      // Ensure the namespace is loaded
+      if (!loadedNamespaces.has(namespace)) {
+        // Add to set of namespaces that need loading
+        setLoadedNamespaces((prev) => new Set([...prev, namespace]));
 
-          // If the namespace isn't available in translations yet, try defaultTranslations
-          if (!value && defaultTranslations[namespace]) {
-            value = defaultTranslations[namespace];
-          }
+        // For immediate loading, though the effect will handle it later
+        loadTranslationsForNamespaces([namespace]);
+      }
 
-          for (const k of keyPath) {
-            if (value === undefined) return key;
-            value = value[k];
-          }
+      let waiting = false;
+      const resolved = find((lang) => {
+        const namespaceTranslations =
+          lang === defaultLanguage
+            ? defaultTranslations[namespace]
+            : translations[lang]?.[namespace];
 
-          return typeof value === 'string' ? value : key;
-        } catch (_error) {
-          console.error(`Translation key not found: ${namespace}:${key}`);
-          return key;
+        // Fallback namespaces load lazily, once the languages before
+        // them in the chain are known to miss the key. The request is
+        // deferred, since t() runs while rendering.
+        if (namespaceTranslations === undefined && !waiting) {
+          Promise.resolve().then(() =>
+            loadTranslationsForNamespaces([namespace], lang)
+          );
+          waiting = true;
         }
-      },
-    [translations, loadedNamespaces, language, defaultLanguage, loadTranslationsForNamespaces, defaultTranslations]
+        return namespaceTranslations;
+      });
+
+      // Only a key that is known to be missing counts, not one whose
+      // translations are still loading
+      const missing =
+        !waiting &&
+        (resolved.language === undefined ||
+          (resolved.language === defaultLanguage &&
+            language !== defaultLanguage));
+      if (missing) {
+        missingKeys.report({
+          language,
+          namespace,
+          key,
+          defaultValue: getTranslationValue(
+            defaultTranslations[namespace],
+            key,
+            undefined,
+            defaultLanguage
+          ),
+        });
+      }
+      return { resolved, missing };
+    },
+    [
+      translations,
+      loadedNamespaces,
+      defaultLanguage,
+      loadTranslationsForNamespaces,
+      defaultTranslations,
+      language,
+      missingKeys,
+    ]
+  );
+
+  // Resolve a key through the fallback chain: resolve(key, values?, namespace?)
+  const resolve = useCallback(
+    (key: string, ...args: unknown[]): ResolvedTranslation => {
+      const { values, namespace } = parseTranslateArgs(args, 'common');
+
+      try {
+        const { resolved, missing } = lookup(key, namespace, (get) =>
+          resolveTranslation(key, namespace, values, fallbackChain, get)
+        );
+        if (!missing) {
+          return resolved;
+        }
+        return applyMissingKeyStrategy(
+          resolved,
+          missingKeyStrategy,
+          namespace,
+          key
+        );
+      } catch (error) {
+        // Missing keys are handled above; this is an unexpected failure
+        console.error(`Failed to translate ${namespace}:${key}:`, error);
+        return { value: key, language: undefined };
+      }
+    },
+    [lookup, fallbackChain, missingKeyStrategy]
+  );
+
+  // Get the string, array or object at a key: raw(key, values?, namespace?)
+  const raw = useCallback(
+    (key: string, ...args: unknown[]): unknown => {
+      const { values, namespace } = parseTranslateArgs(args, 'common');
+
+      try {
+        return lookup(key, namespace, (get) =>
+          resolveRawTranslation(key, namespace, values, fallbackChain, get)
+        ).resolved.value;
+      } catch (error) {
+        console.error(`Failed to translate ${namespace}:${key}:`, error);
+        return undefined;
+      }
+    },
+    [lookup, fallbackChain]
+  );
+
+  // Get translation by key: t(key, values?, namespace?)
+  const t = useMemo(
+    () =>
+      Object.assign(
+        (key: string, ...args: unknown[]): string =>
+          resolve(key, ...args).value,
+        {
+          resolve,
+          rich: (key: string, ...args: unknown[]): ReactNode => {
+            const { values, namespace } = parseTranslateArgs(args, 'common');
+            return formatRichText(
+              values as RichValues | undefined,
+              (plainValues) =>
+                resolve(
+                  key,
+                  ...(plainValues ? [plainValues, namespace] : [namespace])
+                ).value
+            );
+          },
+          raw,
+          list: (key: string, ...args: unknown[]): string[] =>
+            toStringList(raw(key, ...args)),
+        }
+      ) as unknown as TranslateFunction<TranslationNamespace>,
+    [resolve, raw]
   );
 
   const contextValue = useMemo(
     () => ({
       language,
       setLanguage,
+      dir,
       t,
       isLoading,
       loadNamespaces,
+      detection,
+      suspense,
+      ensureNamespaces,
+      prefetch,
+      getMissingKeys: missingKeys.getMissingKeys,
     }),
-    [language, t, isLoading, loadNamespaces]
+    [
+      language,
+      dir,
+      t,
+      isLoading,
+      loadNamespaces,
+      detection,
+      suspense,
+      ensureNamespaces,
+      prefetch,
+      missingKeys,
+    ]
   );
 
   return (
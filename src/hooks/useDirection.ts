@@ -0,0 +1,30 @@
+import { useContext } from 'react';
+import { TranslationContext } from '../contexts/TranslationContext';
+import { TextDirection } from '../utils/textDirection';
+
+/**
+ * Hook for the text direction of the current language
+ *
+ * @returns 'rtl' for languages such as Arabic and Hebrew, otherwise 'ltr'
+ *
+ * @example
+ * ```tsx
+ * function Sidebar({ children }) {
+ *   const dir = useDirection();
+ *   return (
+ *     <aside dir={dir} className={dir === 'rtl' ? 'right-0' : 'left-0'}>
+ *       {children}
+ *     </aside>
+ *   );
+ * }
+ * ```
+ */
+export const useDirection = (): TextDirection => {
+  const context = useContext(TranslationContext);
+
+  if (context === undefined) {
+    throw new Error('useDirection must be used within a TranslationProvider');
+  }
+
+  return context.dir;
+};
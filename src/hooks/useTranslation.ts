@@ -1,11 +1,31 @@
-import { useContext, useEffect, useMemo } from 'react';
+import { ReactNode, useContext, useEffect, useMemo } from 'react';
 import { TranslationContext } from '../contexts/TranslationContext';
-import { TranslationKey, TranslationNamespace } from '../types/translations';
+import { parseTranslateArgs } from '../utils/translationHelpers';
+import {
+  ResolvedTranslation,
+  TranslateFunction,
+  TranslationNamespace,
+} from '../types/translations';
+
+// t() as seen at runtime, before the typed overloads are applied
+interface UntypedTranslateFunction {
+  (key: string, ...args: unknown[]): string;
+  resolve: (key: string, ...args: unknown[]) => ResolvedTranslation;
+  rich: (key: string, ...args: unknown[]) => ReactNode;
+  raw: (key: string, ...args: unknown[]) => unknown;
+  list: (key: string, ...args: unknown[]) => string[];
+}
+
+export interface UseTranslationOptions {
+  suspense?: boolean;
+}
 
 /**
  * Hook for accessing translations in React components
  *
  * @param namespaces - Array of namespaces to load. Defaults to ['common']
+ * @param options.suspense - Suspend until the namespaces are loaded for the
+ *   current language. Defaults to the provider's `suspense` prop
  * @returns Translation function and utilities
  *
  * @example
@@ -18,6 +38,43 @@ import { TranslationKey, TranslationNamespace } from '../types/translations';
  *
  * @example
  * ```tsx
+ * // Interpolation variables are checked against the placeholders in the JSON
+ * function Welcome({ name }: { name: string }) {
+ *   const { t } = useTranslation(['common']);
+ *   return <h1>{t('welcome', { name })}</h1>;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Suspense: render a fallback until 'dashboard' is loaded. Wrap
+ * // setLanguage in startTransition to keep the old UI while switching.
+ * function Dashboard() {
+ *   const { t } = useTranslation(['dashboard'], { suspense: true });
+ *   return <h1>{t('title')}</h1>;
+ * }
+ *
+ * <Suspense fallback={<Spinner />}>
+ *   <Dashboard />
+ * </Suspense>
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Lists and objects: { "faq": [{ "question": "...", "answer": "..." }] }
+ * function Faq() {
+ *   const { t } = useTranslation(['help']);
+ *   return t.raw('faq').map(({ question, answer }) => (
+ *     <details key={question}>
+ *       <summary>{question}</summary>
+ *       {answer}
+ *     </details>
+ *   ));
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
  * // Multiple namespaces
  * function MyComponent() {
  *   const { t } = useTranslation(['common', 'user']);
@@ -30,8 +87,11 @@ import { TranslationKey, TranslationNamespace } from '../types/translations';
  * }
  * ```
  */
-export const useTranslation = <N extends TranslationNamespace[]>(
-  namespaces: N = ['common'] as any
+export const useTranslation = <
+  N extends [TranslationNamespace, ...TranslationNamespace[]]
+>(
+  namespaces: N = ['common'] as any,
+  options: UseTranslationOptions = {}
 ) => {
   const context = useContext(TranslationContext);
 
@@ -39,7 +99,13 @@ export const useTranslation = <N extends TranslationNamespace[]>(
     throw new Error('useTranslation must be used within a TranslationProvider');
   }
 
-  const { t: translate, loadNamespaces, ...rest } = context;
+  const {
+    t: translate,
+    loadNamespaces,
+    ensureNamespaces,
+    suspense,
+    ...rest
+  } = context;
 
   // Ensure all requested namespaces are loaded
   useEffect(() => {
@@ -47,19 +113,32 @@ export const useTranslation = <N extends TranslationNamespace[]>(
   }, [namespaces, loadNamespaces]);
 
   // Create a wrapper for the t function that defaults to the first namespace
-  const t = useMemo(
-    () =>
-      <TNamespace extends N[number] = N[0]>(
-        key: TranslationKey<TNamespace>,
-        namespace?: TNamespace
-      ) => {
-        // Always explicitly pass the namespace to the translate function
-        // This ensures the correct namespace is used regardless of the order
-        const nsToUse = namespace || namespaces[0];
-        return translate(key, nsToUse);
-      },
-    [translate, namespaces]
-  );
+  const t = useMemo(() => {
+    // Always explicitly pass the namespace to the translate function
+    // This ensures the correct namespace is used regardless of the order
+    const withNamespace =
+      <R>(fn: (key: string, ...args: unknown[]) => R) =>
+      (key: string, ...args: unknown[]): R => {
+        const { values, namespace } = parseTranslateArgs(args, namespaces[0]);
+        return fn(key, ...(values ? [values, namespace] : [namespace]));
+      };
+
+    const untyped = translate as unknown as UntypedTranslateFunction;
+    return Object.assign(withNamespace(untyped), {
+      resolve: withNamespace(untyped.resolve),
+      rich: withNamespace(untyped.rich),
+      raw: withNamespace(untyped.raw),
+      list: withNamespace(untyped.list),
+    }) as unknown as TranslateFunction<N[0], N[number]>;
+  }, [translate, namespaces]);
+
+  // Suspend until the namespaces are available in the current language
+  if (options.suspense ?? suspense) {
+    const promise = ensureNamespaces(namespaces);
+    if (promise) {
+      throw promise;
+    }
+  }
 
   return { ...rest, t };
 };
@@ -5,13 +5,19 @@
  */
 
 // Main exports
-export { useTranslation } from './hooks/useTranslation';
+export {
+  useTranslation,
+  type UseTranslationOptions,
+} from './hooks/useTranslation';
+export { useDirection } from './hooks/useDirection';
 export {
   TranslationProvider,
   TranslationContext,
   type TranslationContextType,
   type TranslationProviderProps,
 } from './contexts/TranslationContext';
+export { Trans, type TransProps } from './components/Trans';
+export { TranslationPreloadLinks } from './components/TranslationPreloadLinks';
 
 // Type exports
 export type {
@@ -19,13 +25,88 @@ export type {
 } from './types/languages';
 
 export type {
+  ResolvedTranslation,
+  RichTagRenderer,
+  RichTranslationValues,
   SupportedLanguage,
+  TranslateFunction,
   TranslationNamespace,
   Translations,
   TranslationKey,
   TranslationKeys,
+  RawTranslation,
+  RawTranslationKey,
+  ListTranslationKey,
 } from './types/translations';
 
 // Utility exports
 export { createLanguageConfig } from './utils/languageConfig';
+export {
+  getTextDirection,
+  getLocaleInfo,
+  type TextDirection,
+} from './utils/textDirection';
+export {
+  detectLanguage,
+  matchLanguage,
+  pathDetector,
+  queryDetector,
+  cookieDetector,
+  navigatorDetector,
+  htmlLangDetector,
+  type LanguageDetector,
+  type LanguageDetectionResult,
+} from './utils/languageDetection';
+export {
+  localStoragePersistence,
+  sessionStoragePersistence,
+  cookiePersistence,
+  memoryPersistence,
+  noPersistence,
+  type PersistenceAdapter,
+} from './utils/persistence';
+export {
+  getFallbackChain,
+  type FallbackLanguages,
+} from './utils/fallbackChain';
+export {
+  getPreloadLinks,
+  type PreloadLink,
+  type PreloadLinksOptions,
+} from './utils/preload';
+export { getNamespaceUrl, parseManifestEntry } from './utils/namespaceLoader';
+export {
+  fetchBackend,
+  dynamicImportBackend,
+  inMemoryBackend,
+  chainBackends,
+  type TranslationBackend,
+  type FetchBackendOptions,
+} from './utils/backends';
+export {
+  persistentCacheBackend,
+  indexedDBStore,
+  cacheStorageStore,
+  type PersistentCacheOptions,
+  type TranslationCacheStore,
+  type TranslationCacheEntry,
+} from './utils/translationCache';
+export {
+  formatMissingKeyMarker,
+  type MissingKey,
+  type MissingKeyHandler,
+  type MissingKeyStrategy,
+} from './utils/missingKeys';
 export { interpolate, formatPlural } from './utils/translationHelpers';
+export {
+  formatMessage,
+  parseMessage,
+  clearMessageCache,
+  type MessageAst,
+  type MessageValues,
+} from './utils/messageFormat';
+export {
+  getPluralCategory,
+  selectPluralVariant,
+  PLURAL_CATEGORIES,
+} from './utils/plurals';
@@ -0,0 +1,308 @@
+/**
+ * @mffl/use-translation/server
+ *
+ * Loads translations from disk for Server Components, SSR and static
+ * generation, with the same lookup semantics as the client `t`
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { TranslationState } from '../contexts/TranslationContext';
+import {
+  SupportedLanguage,
+  TranslateFunction,
+  TranslationNamespace,
+  Translations,
+} from '../types/translations';
+import { LanguageConfig } from '../types/languages';
+import { TranslationBackend } from '../utils/backends';
+import { FallbackLanguages, getFallbackChain } from '../utils/fallbackChain';
+import {
+  applyMissingKeyStrategy,
+  createMissingKeyTracker,
+  MissingKeyHandler,
+  MissingKeyStrategy,
+} from '../utils/missingKeys';
+import { parseManifestEntry } from '../utils/namespaceLoader';
+import { formatRichText, RichValues } from '../utils/richText';
+import {
+  getTranslationValue,
+  parseTranslateArgs,
+  resolveRawTranslation,
+  resolveTranslation,
+  toStringList,
+} from '../utils/translationHelpers';
+import { getTextDirection, TextDirection } from '../utils/textDirection';
+
+export type { TranslationState };
+export { getTextDirection, type TextDirection };
+
+export interface ServerTranslationOptions<
+  N extends [TranslationNamespace, ...TranslationNamespace[]],
+> {
+  /** Language to translate into */
+  language: SupportedLanguage;
+  /** Namespaces to load; the first one is the default for t() */
+  namespaces: N;
+  defaultLanguage: SupportedLanguage;
+  defaultTranslations: Translations;
+  isSupportedLanguage: (lang: string) => lang is SupportedLanguage;
+  /** Manifest generated by hashTranslations */
+  translationManifest?: Record<string, string>;
+  /** Directory with <language>/<namespace>.json files (default: public/locales) */
+  localesDir?: string;
+  /** Directory the manifest entries point into (default: public/locales-hashed) */
+  localesHashedDir?: string;
+  fallbackLanguages?: FallbackLanguages;
+  /** Load namespaces from a backend instead of the files on disk */
+  backend?: TranslationBackend;
+  /** Called once per missing key, like the provider's onMissingKey */
+  onMissingKey?: MissingKeyHandler;
+  /** What t() returns for a missing key (default: 'fallback') */
+  missingKeyStrategy?: MissingKeyStrategy;
+  /** Language configurations whose `dir` overrides the derived direction */
+  languages?: readonly LanguageConfig[];
+}
+
+// Hashed files never change, so their contents can be kept for the process
+const hashedFileCache = new Map<string, Promise<unknown>>();
+
+async function readJson(filePath: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(filePath, 'utf8'));
+}
+
+/**
+ * Reads one namespace of one language from disk
+ * Uses the hashed file from the manifest when there is one, reading a bundle
+ * once for all the namespaces in it
+ *
+ * @returns The translations, or undefined when the file doesn't exist
+ */
+export async function loadNamespaceFromDisk(
+  language: SupportedLanguage,
+  namespace: TranslationNamespace,
+  {
+    translationManifest = {},
+    localesDir = path.join(process.cwd(), 'public/locales'),
+    localesHashedDir = path.join(process.cwd(), 'public/locales-hashed'),
+  }: Pick<
+    ServerTranslationOptions<[TranslationNamespace]>,
+    'translationManifest' | 'localesDir' | 'localesHashedDir'
+  > = {}
+): Promise<unknown> {
+  const hashedFilename = translationManifest[`${language}/${namespace}`];
+
+  try {
+    if (hashedFilename) {
+      const { file, bundleKey } = parseManifestEntry(hashedFilename);
+      const filePath = path.join(localesHashedDir, file);
+      let cached = hashedFileCache.get(filePath);
+      if (!cached) {
+        cached = readJson(filePath);
+        hashedFileCache.set(filePath, cached);
+        cached.catch(() => hashedFileCache.delete(filePath));
+      }
+      const data = await cached;
+      return bundleKey ? (data as Record<string, unknown>)[bundleKey] : data;
+    }
+    return await readJson(path.join(localesDir, language, `${namespace}.json`));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(
+        `Failed to load translation for ${language}/${namespace}:`,
+        error
+      );
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Loads the namespaces for a language and every language in its fallback
+ * chain, and returns a `t` bound to them together with the state to hand
+ * to `TranslationProvider` as `initialState`
+ *
+ * @example
+ * ```tsx
+ * // app/[lang]/page.tsx
+ * import { getTranslations } from '@mffl/use-translation/server';
+ *
+ * export default async function Page({ params }) {
+ *   const { t, state } = await getTranslations({
+ *     language: params.lang,
+ *     namespaces: ['home', 'common'],
+ *     defaultLanguage: 'en',
+ *     defaultTranslations,
+ *     translationManifest,
+ *     isSupportedLanguage,
+ *   });
+ *
+ *   return (
+ *     <Providers initialState={state}>
+ *       <h1>{t('title')}</h1>
+ *     </Providers>
+ *   );
+ * }
+ * ```
+ */
+export async function getTranslations<
+  N extends [TranslationNamespace, ...TranslationNamespace[]],
+>(
+  options: ServerTranslationOptions<N>
+): Promise<{
+  t: TranslateFunction<N[0], N[number]>;
+  language: SupportedLanguage;
+  /** Text direction of the language, for `<html dir>` */
+  dir: TextDirection;
+  state: TranslationState;
+}> {
+  const {
+    namespaces,
+    defaultLanguage,
+    defaultTranslations,
+    isSupportedLanguage,
+    fallbackLanguages,
+    backend,
+    onMissingKey,
+    missingKeyStrategy = 'fallback',
+    languages,
+  } = options;
+  const language = isSupportedLanguage(options.language)
+    ? options.language
+    : defaultLanguage;
+  const fallbackChain = getFallbackChain(
+    language,
+    defaultLanguage,
+    isSupportedLanguage,
+    fallbackLanguages
+  );
+
+  const { signal } = new AbortController();
+  const load = async (
+    lang: SupportedLanguage,
+    namespace: TranslationNamespace
+  ) => {
+    if (!backend) {
+      return loadNamespaceFromDisk(lang, namespace, options);
+    }
+    try {
+      return await backend.load(lang, namespace, { signal });
+    } catch (error) {
+      console.error(
+        `Failed to load translation for ${lang}/${namespace}:`,
+        error
+      );
+      return undefined;
+    }
+  };
+
+  const translations: Record<string, Partial<Translations>> = {};
+  await Promise.all(
+    fallbackChain
+      .filter((lang) => lang !== defaultLanguage)
+      .flatMap((lang) =>
+        namespaces.map(async (namespace) => {
+          const data = await load(lang, namespace);
+          translations[lang] = translations[lang] ?? {};
+          // Missing files are stored empty, like failed fetches on the client
+          translations[lang][namespace as keyof Translations] = (data ??
+            {}) as Translations[keyof Translations];
+        })
+      )
+  );
+
+  const missingKeys = createMissingKeyTracker(() => onMissingKey);
+
+  const getNamespaceTranslations = (namespace: string) => (lang: string) =>
+    lang === defaultLanguage
+      ? defaultTranslations[namespace]
+      : translations[lang]?.[namespace];
+
+  // Every namespace is loaded here, so a miss is always final
+  const reportIfMissing = (
+    key: string,
+    namespace: string,
+    resolvedLanguage: string | undefined
+  ) => {
+    if (
+      resolvedLanguage !== undefined &&
+      (resolvedLanguage !== defaultLanguage || language === defaultLanguage)
+    ) {
+      return false;
+    }
+    missingKeys.report({
+      language,
+      namespace,
+      key,
+      defaultValue: getTranslationValue(
+        defaultTranslations[namespace],
+        key,
+        undefined,
+        defaultLanguage
+      ),
+    });
+    return true;
+  };
+
+  const resolve = (key: string, ...args: unknown[]) => {
+    const { values, namespace } = parseTranslateArgs(args, namespaces[0]);
+    const resolved = resolveTranslation(
+      key,
+      namespace,
+      values,
+      fallbackChain,
+      getNamespaceTranslations(namespace)
+    );
+
+    if (!reportIfMissing(key, namespace, resolved.language)) {
+      return resolved;
+    }
+    return applyMissingKeyStrategy(
+      resolved,
+      missingKeyStrategy,
+      namespace,
+      key
+    );
+  };
+
+  const raw = (key: string, ...args: unknown[]) => {
+    const { values, namespace } = parseTranslateArgs(args, namespaces[0]);
+    const resolved = resolveRawTranslation(
+      key,
+      namespace,
+      values,
+      fallbackChain,
+      getNamespaceTranslations(namespace)
+    );
+    reportIfMissing(key, namespace, resolved.language);
+    return resolved.value;
+  };
+
+  const t = Object.assign(
+    (key: string, ...args: unknown[]) => resolve(key, ...args).value,
+    {
+      resolve,
+      rich: (key: string, ...args: unknown[]) => {
+        const { values, namespace } = parseTranslateArgs(args, namespaces[0]);
+        return formatRichText(
+          values as RichValues | undefined,
+          (plainValues) =>
+            resolve(
+              key,
+              ...(plainValues ? [plainValues, namespace] : [namespace])
+            ).value
+        );
+      },
+      raw,
+      list: (key: string, ...args: unknown[]) =>
+        toStringList(raw(key, ...args)),
+    }
+  ) as unknown as TranslateFunction<N[0], N[number]>;
+
+  return {
+    t,
+    language,
+    dir: getTextDirection(language, languages),
+    state: { language, translations },
+  };
+}
@@ -1,11 +1,23 @@
 /**
  * Configuration for a supported language
+ *
+ * @template Code - Language code type, a string literal for configs created
+ *   with createLanguageConfig
  */
-export interface LanguageConfig {
+export interface LanguageConfig<Code extends string = string> {
   /** ISO 639-1 language code (e.g., 'en', 'es', 'fr') */
-  code: string;
+  code: Code;
   /** English name of the language */
   name: string;
   /** Native name of the language (e.g., 'Español' for Spanish) */
   nativeName: string;
+  /**
+   * Text direction. createLanguageConfig derives it from the code when it's
+   * left out
+   */
+  dir?: 'ltr' | 'rtl';
+  /** BCP 47 locale for Intl formatting (e.g., 'en-GB'); defaults to the code */
+  locale?: string;
+  /** ISO 15924 script (e.g., 'Arab', 'Latn'); derived from the locale */
+  script?: string;
 }
@@ -3,9 +3,12 @@
  * This file is typically auto-generated by the build scripts
  */
 
+import type { ReactElement, ReactNode } from 'react';
+
 /**
  * Supported language code type
- * Replace this with your actual supported language codes
+ * The generated file has the union of the locale directories
+ * @example 'en' | 'es' | 'fr'
  */
 export type SupportedLanguage = string;
 
@@ -26,14 +29,22 @@ export interface Translations {
 
 /**
  * Utility type to extract translation keys as dot-notation strings
+ * Only strings are keys; tuples contribute their indexes ('steps.0'), and
+ * keys with a dot are left out since t() can't reach them
  */
 type PathImpl<T, Key extends keyof T> = Key extends string
-  ? T[Key] extends Record<string, any>
-    ? `${Key}.${PathImpl<T[Key], keyof T[Key]>}`
-    : Key
+  ? Key extends `${string}.${string}`
+    ? never
+    : T[Key] extends string
+      ? Key
+      : T[Key] extends object
+        ? `${Key}.${Path<T[Key]>}`
+        : never
   : never;
 
-type Path<T> = PathImpl<T, keyof T>;
+type Path<T> = T extends readonly unknown[]
+  ? PathImpl<T, Extract<keyof T, `${number}`>>
+  : PathImpl<T, keyof T>;
 
 /**
  * Translation key type for a given namespace
@@ -41,6 +52,190 @@ type Path<T> = PathImpl<T, keyof T>;
  */
 export type TranslationKey<N extends TranslationNamespace> = string;
 
+/**
+ * Key accepted by t.raw(): any string, array or object of a namespace
+ * The generated file lists every path, including the ones of subtrees
+ */
+export type RawTranslationKey<N extends TranslationNamespace> = string;
+
+/**
+ * Key accepted by t.list(): a list of strings, such as month names
+ */
+export type ListTranslationKey<N extends TranslationNamespace> = string;
+
+/**
+ * Value t.raw() returns for a key
+ * The generated file has the type of the subtree in the default language
+ */
+export type RawTranslation<
+  N extends TranslationNamespace,
+  K extends string
+> = any;
+
+/**
+ * Interpolation variables accepted by a translation key
+ * The generated file maps every key to the variables found in its text
+ */
+export type TranslationParams<
+  N extends TranslationNamespace,
+  K extends string
+> = Record<string, string | number | boolean | Date>;
+
+/**
+ * Trailing values argument of t() for a key
+ * Keys without variables take no values argument in the generated file
+ */
+export type TranslationValuesArg<
+  N extends TranslationNamespace,
+  K extends string
+> = [] | [values: TranslationParams<N, K>];
+
+/**
+ * Renders a tag of a rich translation: an element that receives the tag
+ * content as children, or a function that is called with the content
+ */
+export type RichTagRenderer = ReactElement | ((chunks: ReactNode) => ReactNode);
+
+/**
+ * Values of t.rich() and <Trans> for a key
+ * The generated file requires the key's variables, which may also be React
+ * nodes, and a renderer for each tag in its text (`<link>...</link>`)
+ */
+export type RichTranslationValues<
+  N extends TranslationNamespace,
+  K extends string
+> = Record<
+  string,
+  string | number | boolean | Date | ReactNode | RichTagRenderer
+>;
+
+/**
+ * Trailing values argument of t.rich() for a key
+ */
+export type RichTranslationValuesArg<
+  N extends TranslationNamespace,
+  K extends string
+> = [] | [values: RichTranslationValues<N, K>];
+
+/**
+ * Trailing values argument of t.raw() and t.list(), applied to every string
+ */
+export type RawTranslationValuesArg =
+  | []
+  | [values: Record<string, string | number | boolean | Date>];
+
+/**
+ * Result of t.resolve()
+ */
+export interface ResolvedTranslation {
+  /** Formatted text, or the key when no language in the fallback chain has it */
+  value: string;
+  /** Language the text came from, undefined when the key is missing */
+  language: SupportedLanguage | undefined;
+}
+
+/**
+ * Call signatures shared by t() and its variants, returning R
+ * Without a namespace the key is looked up in D, the default namespace;
+ * passing a namespace as the last argument allows any namespace in A
+ */
+export interface TranslateSignature<
+  D extends TranslationNamespace,
+  A extends TranslationNamespace,
+  R
+> {
+  <K extends TranslationKey<D>>(
+    key: K,
+    ...values: TranslationValuesArg<D, K>
+  ): R;
+  <N extends A, K extends TranslationKey<N>>(
+    key: K,
+    ...args: [...TranslationValuesArg<N, K>, N]
+  ): R;
+}
+
+/**
+ * Call signatures of t.rich(), like TranslateSignature but with rich values
+ */
+export interface RichTranslateSignature<
+  D extends TranslationNamespace,
+  A extends TranslationNamespace
+> {
+  <K extends TranslationKey<D>>(
+    key: K,
+    ...values: RichTranslationValuesArg<D, K>
+  ): ReactNode;
+  <N extends A, K extends TranslationKey<N>>(
+    key: K,
+    ...args: [...RichTranslationValuesArg<N, K>, N]
+  ): ReactNode;
+}
+
+/**
+ * Call signatures of t.raw()
+ */
+export interface RawTranslateSignature<
+  D extends TranslationNamespace,
+  A extends TranslationNamespace
+> {
+  <K extends RawTranslationKey<D>>(
+    key: K,
+    ...values: RawTranslationValuesArg
+  ): RawTranslation<D, K>;
+  <N extends A, K extends RawTranslationKey<N>>(
+    key: K,
+    ...args: [...RawTranslationValuesArg, N]
+  ): RawTranslation<N, K>;
+}
+
+/**
+ * Call signatures of t.list()
+ */
+export interface ListTranslateSignature<
+  D extends TranslationNamespace,
+  A extends TranslationNamespace
+> {
+  <K extends ListTranslationKey<D>>(
+    key: K,
+    ...values: RawTranslationValuesArg
+  ): string[];
+  <N extends A, K extends ListTranslationKey<N>>(
+    key: K,
+    ...args: [...RawTranslationValuesArg, N]
+  ): string[];
+}
+
+/**
+ * Signature of t()
+ *
+ * @example
+ * ```typescript
+ * t('welcome', { name });
+ * t('title', 'dashboard');
+ * t('greeting', { name }, 'user');
+ * t.resolve('title', 'dashboard'); // => { value: 'Panel', language: 'es' }
+ * t.rich('terms', { link: (chunks) => <a href="/terms">{chunks}</a> });
+ * t.raw('faq'); // => [{ question: '...', answer: '...' }, ...]
+ * t.list('months'); // => ['January', 'February', ...]
+ * ```
+ */
+export interface TranslateFunction<
+  D extends TranslationNamespace,
+  A extends TranslationNamespace = D
+> extends TranslateSignature<D, A, string> {
+  /** Like t(), but also reports which language the text came from */
+  resolve: TranslateSignature<D, A, ResolvedTranslation>;
+  /** Like t(), but renders tags and React node values into React nodes */
+  rich: RichTranslateSignature<D, A>;
+  /**
+   * Returns the string, array or object at a key, with the values applied
+   * to every string in it
+   */
+  raw: RawTranslateSignature<D, A>;
+  /** Returns the list of strings at a key, with the values applied */
+  list: ListTranslateSignature<D, A>;
+}
+
 /**
  * Helper type to get translation keys for a specific namespace
  * @example TranslationKeys<'common'> // => 'nav.back' | 'nav.home' | ...
@@ -0,0 +1,264 @@
+/**
+ * Translation backends: where TranslationProvider loads namespaces from
+ *
+ * The default backend fetches the files produced by hashTranslations. Other
+ * sources (bundler chunks, a CMS export, an Electron bridge) plug in through
+ * the same `load` interface and can be chained as fallbacks.
+ */
+
+import {
+  getNamespaceUrl,
+  isAbortError,
+  parseManifestEntry,
+} from './namespaceLoader';
+
+/**
+ * Loads one namespace of one language
+ */
+export interface TranslationBackend {
+  /**
+   * @returns The namespace translations, or undefined when the namespace
+   *   doesn't exist in that language
+   * @throws When loading fails; an AbortError when `signal` is aborted
+   */
+  load: (
+    language: string,
+    namespace: string,
+    options: { signal: AbortSignal }
+  ) => Promise<unknown>;
+}
+
+export interface FetchBackendOptions {
+  /** Manifest generated by hashTranslations */
+  translationManifest?: Record<string, string>;
+  localesPath?: string;
+  localesHashedPath?: string;
+  /** Extra request options such as headers or credentials */
+  requestInit?:
+    RequestInit | ((language: string, namespace: string) => RequestInit);
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+function abortError(): Error {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Fetches the hashed file listed in the manifest, or the plain
+ * `<localesPath>/<language>/<namespace>.json` file when it isn't listed
+ * This is the backend TranslationProvider uses when none is given
+ *
+ * Namespaces that hashTranslations put in the same bundle share one
+ * request: the bundle is fetched once (with the requestInit of the first
+ * namespace that needs it) and kept for the others. It's only cancelled
+ * when every namespace waiting for it is.
+ *
+ * @example
+ * ```typescript
+ * fetchBackend({
+ *   translationManifest,
+ *   requestInit: { headers: { Authorization: `Bearer ${token}` } },
+ * })
+ * ```
+ */
+export function fetchBackend({
+  translationManifest = {},
+  localesPath,
+  localesHashedPath,
+  requestInit,
+  fetch: fetchImpl,
+}: FetchBackendOptions = {}): TranslationBackend {
+  const request = async (url: string, init: RequestInit) => {
+    const response = await (fetchImpl ?? fetch)(url, init);
+    return response.ok ? response.json() : undefined;
+  };
+
+  const bundles = new Map<
+    string,
+    {
+      promise: Promise<Record<string, unknown> | undefined>;
+      controller: AbortController;
+      waiting: number;
+      settled: boolean;
+    }
+  >();
+
+  const loadBundle = (
+    url: string,
+    init: RequestInit | undefined,
+    signal: AbortSignal
+  ): Promise<Record<string, unknown> | undefined> => {
+    let bundle = bundles.get(url);
+    if (!bundle) {
+      const controller = new AbortController();
+      const entry = {
+        promise: request(url, { ...init, signal: controller.signal }),
+        controller,
+        waiting: 0,
+        settled: false,
+      };
+      entry.promise.then(
+        () => {
+          entry.settled = true;
+        },
+        // Failed and cancelled requests are retried by the next namespace
+        () => {
+          entry.settled = true;
+          if (bundles.get(url) === entry) {
+            bundles.delete(url);
+          }
+        }
+      );
+      bundles.set(url, entry);
+      bundle = entry;
+    }
+
+    const current = bundle;
+    if (current.settled) {
+      return current.promise;
+    }
+    current.waiting++;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(abortError());
+        current.waiting--;
+        if (current.waiting === 0 && !current.settled) {
+          current.controller.abort();
+          bundles.delete(url);
+        }
+      };
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      current.promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  };
+
+  return {
+    load: async (language, namespace, { signal }) => {
+      const urlOptions = {
+        translationManifest,
+        localesPath,
+        localesHashedPath,
+      };
+      const url = getNamespaceUrl(language, namespace, urlOptions);
+      const init =
+        typeof requestInit === 'function'
+          ? requestInit(language, namespace)
+          : requestInit;
+
+      const entry = translationManifest[`${language}/${namespace}`];
+      const bundleKey = entry && parseManifestEntry(entry).bundleKey;
+      if (bundleKey) {
+        const bundle = await loadBundle(url, init, signal);
+        return bundle?.[bundleKey];
+      }
+      return request(url, { ...init, signal });
+    },
+  };
+}
+
+/**
+ * Loads namespaces with bundler `import()` calls, so each one becomes its
+ * own chunk. The module's default export is used when it has one.
+ *
+ * @param importer - Imports the module of a language/namespace pair;
+ *   resolve to undefined for pairs that don't exist
+ *
+ * @example
+ * ```typescript
+ * dynamicImportBackend(
+ *   (language, namespace) => import(`./locales/${language}/${namespace}.json`)
+ * )
+ * ```
+ */
+export function dynamicImportBackend(
+  importer: (language: string, namespace: string) => Promise<unknown>
+): TranslationBackend {
+  return {
+    load: async (language, namespace, { signal }) => {
+      const module = await importer(language, namespace);
+      // import() can't be cancelled, so drop the result instead
+      if (signal.aborted) {
+        throw abortError();
+      }
+      if (module && typeof module === 'object' && 'default' in module) {
+        return (module as { default: unknown }).default;
+      }
+      return module;
+    },
+  };
+}
+
+/**
+ * Serves namespaces from an object that is already in memory, such as a
+ * CMS export or test fixtures
+ *
+ * @param resources - Translations by language, then by namespace
+ *
+ * @example
+ * ```typescript
+ * inMemoryBackend({
+ *   es: { common: { welcome: 'Bienvenido' } },
+ *   fr: { common: { welcome: 'Bienvenue' } },
+ * })
+ * ```
+ */
+export function inMemoryBackend(
+  resources: Record<string, Record<string, unknown>>
+): TranslationBackend {
+  return {
+    load: async (language, namespace) => resources[language]?.[namespace],
+  };
+}
+
+/**
+ * Tries backends in order until one returns the namespace
+ * A backend that fails or doesn't have the namespace falls through to the
+ * next one. When no backend has it and one of them failed, the last error
+ * is thrown.
+ *
+ * @example
+ * ```typescript
+ * chainBackends(
+ *   inMemoryBackend(cmsExport),
+ *   fetchBackend({ translationManifest })
+ * )
+ * ```
+ */
+export function chainBackends(
+  ...backends: TranslationBackend[]
+): TranslationBackend {
+  return {
+    load: async (language, namespace, options) => {
+      let lastError: unknown;
+      let failed = false;
+
+      for (const backend of backends) {
+        try {
+          const data = await backend.load(language, namespace, options);
+          if (data !== undefined) {
+            return data;
+          }
+        } catch (error) {
+          if (isAbortError(error) || options.signal.aborted) {
+            throw error;
+          }
+          lastError = error;
+          failed = true;
+        }
+      }
+
+      if (failed) {
+        throw lastError;
+      }
+      return undefined;
+    },
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Minimal document.cookie helpers
+ */
+
+/**
+ * Reads a cookie value
+ *
+ * @param name - Cookie name
+ * @returns Decoded value, or undefined when the cookie isn't set or cookies are unavailable
+ */
+export function readCookie(name: string): string | undefined {
+  if (typeof document === 'undefined') return undefined;
+
+  for (const part of document.cookie.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+    if (part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return part.slice(separator + 1).trim();
+      }
+    }
+  }
+  return undefined;
+}
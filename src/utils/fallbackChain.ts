@@ -0,0 +1,67 @@
+import { SupportedLanguage } from '../types/translations';
+
+/**
+ * Fallback languages to try, in order, when a key is missing
+ * Either a map from language code to its fallbacks, or a function
+ *
+ * @example
+ * ```typescript
+ * const fallbackLanguages = { 'pt-BR': ['pt-PT', 'pt'], 'es-MX': ['es'] };
+ * ```
+ */
+export type FallbackLanguages =
+  | Record<string, SupportedLanguage[]>
+  | ((language: SupportedLanguage) => SupportedLanguage[]);
+
+/**
+ * Gets the less specific forms of a language tag
+ *
+ * @example
+ * ```typescript
+ * getBaseLanguages('zh-Hant-TW') // => ['zh-Hant', 'zh']
+ * getBaseLanguages('en') // => []
+ * ```
+ */
+export function getBaseLanguages(language: string): string[] {
+  const subtags = language.split('-');
+  const bases: string[] = [];
+  for (let i = subtags.length - 1; i > 0; i--) {
+    bases.push(subtags.slice(0, i).join('-'));
+  }
+  return bases;
+}
+
+/**
+ * Builds the ordered list of languages a key is resolved through
+ *
+ * Starts with the language itself, followed by the configured fallbacks or,
+ * when none are configured, the supported base languages (pt-BR → pt), and
+ * always ends with the default language.
+ *
+ * @param language - Active language
+ * @param defaultLanguage - Language whose translations are always available
+ * @param isSupportedLanguage - Filters out base languages that don't exist
+ * @param fallbackLanguages - Explicit fallbacks per language
+ * @returns Languages to try, without duplicates
+ *
+ * @example
+ * ```typescript
+ * getFallbackChain('pt-BR', 'en', (lang) => ['en', 'pt', 'pt-BR'].includes(lang))
+ * // => ['pt-BR', 'pt', 'en']
+ * ```
+ */
+export function getFallbackChain(
+  language: SupportedLanguage,
+  defaultLanguage: SupportedLanguage,
+  isSupportedLanguage: (lang: string) => lang is SupportedLanguage,
+  fallbackLanguages?: FallbackLanguages
+): SupportedLanguage[] {
+  const configured =
+    typeof fallbackLanguages === 'function'
+      ? fallbackLanguages(language)
+      : fallbackLanguages?.[language];
+  const fallbacks =
+    configured ?? getBaseLanguages(language).filter(isSupportedLanguage);
+
+  return Array.from(new Set([language, ...fallbacks, defaultLanguage]));
+}
@@ -1,8 +1,17 @@
 import { LanguageConfig } from '../types/languages';
+import { getLocaleInfo, TextDirection } from './textDirection';
 
 /**
  * Creates a language configuration helper
  *
+ * The language codes are inferred as a union of literals, so
+ * `isSupportedLanguage` narrows to `'en' | 'es'` rather than `string` and a
+ * default language that isn't in the list is a type error. Arrays declared
+ * separately need `as const` to keep their literal codes.
+ *
+ * Each language gets a `dir`, `locale` and `script`, derived from its
+ * `locale` (or code) with `Intl.Locale` unless the config sets them.
+ *
  * @param languages - Array of supported language configurations
  * @param defaultLanguage - Default language code
  * @returns Helper functions for language management
@@ -16,13 +25,28 @@ import { LanguageConfig } from '../types/languages';
  *   ],
  *   'en'
  * );
+ *
+ * if (isSupportedLanguage(lang)) {
+ *   lang; // 'en' | 'es'
+ * }
  * ```
  */
-export function createLanguageConfig<T extends string>(
-  languages: readonly LanguageConfig[],
+export function createLanguageConfig<
+  SupportedLanguageCode extends string,
+  T extends SupportedLanguageCode
+>(
+  languages: readonly LanguageConfig<SupportedLanguageCode>[],
   defaultLanguage: T
 ) {
-  type SupportedLanguageCode = (typeof languages)[number]['code'];
+  const configs = languages.map((lang) => {
+    const info = getLocaleInfo(lang.locale ?? lang.code);
+    return {
+      ...lang,
+      dir: lang.dir ?? info.dir,
+      locale: info.locale,
+      script: lang.script ?? info.script,
+    };
+  });
 
   /**
    * Check if a language code is supported
@@ -30,21 +54,28 @@ export function createLanguageConfig<T extends string>(
   const isSupportedLanguage = (
     lang: string
   ): lang is SupportedLanguageCode => {
-    return languages.some((l) => l.code === lang);
+    return configs.some((l) => l.code === lang);
   };
 
   /**
    * Get all supported language codes
    */
   const getSupportedLanguageCodes = (): SupportedLanguageCode[] => {
-    return languages.map((lang) => lang.code) as SupportedLanguageCode[];
+    return configs.map((lang) => lang.code);
   };
 
   /**
    * Get language configuration by code
    */
-  const getLanguageByCode = (code: string): LanguageConfig | undefined => {
-    return languages.find((lang) => lang.code === code);
+  const getLanguageByCode = (code: string) => {
+    return configs.find((lang) => lang.code === code);
+  };
+
+  /**
+   * Get the text direction of a language
+   */
+  const getDirection = (code: string): TextDirection => {
+    return getLanguageByCode(code)?.dir ?? getLocaleInfo(code).dir;
   };
 
   /**
@@ -55,11 +86,12 @@ export function createLanguageConfig<T extends string>(
   };
 
   return {
-    languages,
+    languages: configs,
     defaultLanguage,
     isSupportedLanguage,
     getSupportedLanguageCodes,
     getLanguageByCode,
+    getDirection,
     getDefaultLanguage,
   };
 }
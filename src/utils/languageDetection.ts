@@ -0,0 +1,172 @@
+import { SupportedLanguage } from '../types/translations';
+import { readCookie } from './cookies';
+import { getBaseLanguages } from './fallbackChain';
+
+/**
+ * Source of candidate languages for the initial language
+ */
+export interface LanguageDetector {
+  /** Identifies the detector in the detection result */
+  name: string;
+  /** Returns candidate language tags, most preferred first */
+  detect: () => string | readonly string[] | null | undefined;
+}
+
+/**
+ * Explains how the initial language was chosen
+ */
+export interface LanguageDetectionResult {
+  /** The chosen language */
+  language: SupportedLanguage;
+  /** Name of the detector that found it, 'storage' for a saved choice, or 'default' */
+  source: string;
+  /** The raw tag the language was matched from (e.g. 'es-MX' for 'es') */
+  candidate?: string;
+}
+
+/**
+ * Finds the best supported language for a list of requested tags
+ * Each tag is tried as written, in canonical form, and then through its
+ * base languages, before moving on to the next tag
+ *
+ * @param candidates - Requested language tags, most preferred first
+ * @param isSupportedLanguage - Supported language check
+ * @returns The matched language and the tag it came from
+ *
+ * @example
+ * ```typescript
+ * matchLanguage(['es-MX', 'en'], (lang) => ['en', 'es'].includes(lang))
+ * // => { language: 'es', candidate: 'es-MX' }
+ * ```
+ */
+export function matchLanguage(
+  candidates: readonly string[],
+  isSupportedLanguage: (lang: string) => lang is SupportedLanguage
+): { language: SupportedLanguage; candidate: string } | undefined {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+
+    const forms = [candidate.trim().replace(/_/g, '-')];
+    try {
+      forms.push(...Intl.getCanonicalLocales(forms[0]));
+    } catch {
+      // Not a valid BCP 47 tag, only try it as written
+    }
+
+    for (const form of forms) {
+      for (const lang of [form, ...getBaseLanguages(form)]) {
+        if (isSupportedLanguage(lang)) {
+          return { language: lang, candidate };
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Runs detectors in order and returns the first supported match
+ *
+ * @param detectors - Detectors, highest priority first
+ * @param isSupportedLanguage - Supported language check
+ */
+export function detectLanguage(
+  detectors: readonly LanguageDetector[],
+  isSupportedLanguage: (lang: string) => lang is SupportedLanguage
+): LanguageDetectionResult | undefined {
+  for (const detector of detectors) {
+    let detected: ReturnType<LanguageDetector['detect']>;
+    try {
+      detected = detector.detect();
+    } catch (error) {
+      console.error(`Language detector "${detector.name}" failed:`, error);
+      continue;
+    }
+    if (!detected) continue;
+
+    const match = matchLanguage(
+      typeof detected === 'string' ? [detected] : detected,
+      isSupportedLanguage
+    );
+    if (match) {
+      return { ...match, source: detector.name };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Detects the language from a URL path segment (e.g. /es/about)
+ *
+ * @param options.index - Index of the segment, ignoring empty ones
+ */
+export function pathDetector({
+  index = 0,
+}: { index?: number } = {}): LanguageDetector {
+  return {
+    name: 'path',
+    detect: () =>
+      typeof window === 'undefined'
+        ? undefined
+        : window.location.pathname.split('/').filter(Boolean)[index],
+  };
+}
+
+/**
+ * Detects the language from a query parameter (e.g. ?lang=es)
+ *
+ * @param options.param - Query parameter name
+ */
+export function queryDetector({
+  param = 'lang',
+}: { param?: string } = {}): LanguageDetector {
+  return {
+    name: 'query',
+    detect: () =>
+      typeof window === 'undefined'
+        ? undefined
+        : new URLSearchParams(window.location.search).get(param),
+  };
+}
+
+/**
+ * Detects the language from a cookie
+ *
+ * @param options.name - Cookie name
+ */
+export function cookieDetector({
+  name = 'language',
+}: { name?: string } = {}): LanguageDetector {
+  return {
+    name: 'cookie',
+    detect: () => readCookie(name),
+  };
+}
+
+/**
+ * Detects the language from the browser preferences (navigator.languages)
+ */
+export function navigatorDetector(): LanguageDetector {
+  return {
+    name: 'navigator',
+    detect: () => {
+      if (typeof navigator === 'undefined') return undefined;
+      return navigator.languages?.length
+        ? navigator.languages
+        : navigator.language;
+    },
+  };
+}
+
+/**
+ * Detects the language from the lang attribute of the <html> element
+ */
+export function htmlLangDetector(): LanguageDetector {
+  return {
+    name: 'htmlLang',
+    detect: () =>
+      typeof document === 'undefined'
+        ? undefined
+        : document.documentElement.lang,
+  };
+}
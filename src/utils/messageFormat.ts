@@ -0,0 +1,467 @@
+/**
+ * ICU MessageFormat parsing and formatting
+ *
+ * Supports simple arguments (`{name}`), typed arguments (`{n, number}`,
+ * `{d, date, short}`, `{d, time}`), `plural`, `selectordinal` and `select`
+ * with nesting, `#` inside plural branches, apostrophe quoting and the
+ * legacy `{{name}}` placeholders used throughout existing catalogs.
+ */
+
+import { getPluralCategory } from './plurals';
+
+/**
+ * A parsed message: literal text interleaved with formatting nodes
+ */
+export type MessageAst = MessageNode[];
+
+export type MessageNode =
+  | string
+  | ArgumentNode
+  | PluralNode
+  | SelectNode
+  | PoundNode;
+
+export interface ArgumentNode {
+  type: 'argument';
+  name: string;
+  format?: 'number' | 'date' | 'time';
+  style?: string;
+  /** True for `{{name}}` placeholders */
+  legacy?: boolean;
+}
+
+export interface PluralNode {
+  type: 'plural';
+  name: string;
+  ordinal: boolean;
+  offset: number;
+  options: Record<string, MessageAst>;
+}
+
+export interface SelectNode {
+  type: 'select';
+  name: string;
+  options: Record<string, MessageAst>;
+}
+
+export interface PoundNode {
+  type: 'pound';
+}
+
+export type MessageValues = Record<
+  string,
+  string | number | boolean | Date | null | undefined
+>;
+
+/**
+ * Parses an ICU message into an AST
+ *
+ * @param message - Message source
+ * @returns Parsed message
+ * @throws {SyntaxError} When the message is not valid ICU syntax
+ *
+ * @example
+ * ```typescript
+ * parseMessage('{count, plural, one {# item} other {# items}}')
+ * ```
+ */
+export function parseMessage(message: string): MessageAst {
+  // A stray "}" at the top level throws, so this reads the whole message
+  return new Parser(message).parseMessage(0, false);
+}
+
+class Parser {
+  pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  error(reason: string): SyntaxError {
+    return new SyntaxError(
+      `${reason} at position ${this.pos} in message "${this.source}"`
+    );
+  }
+
+  parseMessage(depth: number, inPlural: boolean): MessageAst {
+    const nodes: MessageAst = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) {
+        nodes.push(text);
+        text = '';
+      }
+    };
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+
+      if (char === "'") {
+        text += this.parseApostrophe(inPlural);
+      } else if (char === '{') {
+        flushText();
+        nodes.push(
+          this.source[this.pos + 1] === '{'
+            ? this.parseLegacyArgument()
+            : this.parseArgument(depth, inPlural)
+        );
+      } else if (char === '}') {
+        if (depth === 0) {
+          throw this.error('Unexpected "}"');
+        }
+        break;
+      } else if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        this.pos++;
+      } else {
+        text += char;
+        this.pos++;
+      }
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  private parseApostrophe(inPlural: boolean): string {
+    const next = this.source[this.pos + 1];
+
+    // '' is always a literal apostrophe
+    if (next === "'") {
+      this.pos += 2;
+      return "'";
+    }
+
+    // An apostrophe only starts quoted text before a syntax character
+    if (next !== '{' && next !== '}' && !(next === '#' && inPlural)) {
+      this.pos++;
+      return "'";
+    }
+
+    this.pos++;
+    let quoted = '';
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === "'") {
+        if (this.source[this.pos + 1] === "'") {
+          quoted += "'";
+          this.pos += 2;
+          continue;
+        }
+        this.pos++;
+        return quoted;
+      }
+      quoted += char;
+      this.pos++;
+    }
+    return quoted;
+  }
+
+  private parseLegacyArgument(): ArgumentNode {
+    const end = this.source.indexOf('}}', this.pos);
+    if (end === -1) {
+      throw this.error('Unclosed "{{"');
+    }
+    const name = this.source.slice(this.pos + 2, end).trim();
+    if (!/^[\w.-]+$/.test(name)) {
+      throw this.error(`Invalid placeholder name "${name}"`);
+    }
+    this.pos = end + 2;
+    return { type: 'argument', name, legacy: true };
+  }
+
+  private parseArgument(
+    depth: number,
+    inPlural: boolean
+  ): ArgumentNode | PluralNode | SelectNode {
+    this.pos++; // {
+    const name = this.parseIdentifier();
+    if (!name) {
+      throw this.error('Expected argument name');
+    }
+
+    this.skipWhitespace();
+    if (this.source[this.pos] === '}') {
+      this.pos++;
+      return { type: 'argument', name };
+    }
+    this.expect(',');
+
+    const type = this.parseIdentifier();
+    switch (type) {
+      case 'number':
+      case 'date':
+      case 'time': {
+        const node: ArgumentNode = { type: 'argument', name, format: type };
+        this.skipWhitespace();
+        if (this.source[this.pos] === ',') {
+          this.pos++;
+          const end = this.source.indexOf('}', this.pos);
+          if (end === -1) {
+            throw this.error('Unclosed argument');
+          }
+          node.style = this.source.slice(this.pos, end).trim();
+          this.pos = end;
+        }
+        this.expect('}');
+        return node;
+      }
+      case 'plural':
+      case 'selectordinal': {
+        this.expect(',');
+        this.skipWhitespace();
+        let offset = 0;
+        if (this.source.startsWith('offset:', this.pos)) {
+          this.pos += 'offset:'.length;
+          this.skipWhitespace();
+          const match = /^\d+/.exec(this.source.slice(this.pos));
+          if (!match) {
+            throw this.error('Expected plural offset');
+          }
+          offset = Number(match[0]);
+          this.pos += match[0].length;
+        }
+        const options = this.parseOptions(depth, true);
+        return {
+          type: 'plural',
+          name,
+          ordinal: type === 'selectordinal',
+          offset,
+          options,
+        };
+      }
+      case 'select': {
+        this.expect(',');
+        const options = this.parseOptions(depth, inPlural);
+        return { type: 'select', name, options };
+      }
+      default:
+        throw this.error(`Unknown argument type "${type}"`);
+    }
+  }
+
+  private parseOptions(
+    depth: number,
+    inPlural: boolean
+  ): Record<string, MessageAst> {
+    const options: Record<string, MessageAst> = {};
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.source[this.pos] === '}') {
+        this.pos++;
+        break;
+      }
+      const selector = this.parseIdentifier();
+      if (!selector) {
+        throw this.error('Expected selector');
+      }
+      this.expect('{');
+      options[selector] = this.parseMessage(depth + 1, inPlural);
+      this.expect('}');
+    }
+
+    if (!options.other) {
+      throw this.error('Missing "other" option');
+    }
+    return options;
+  }
+
+  private parseIdentifier(): string {
+    this.skipWhitespace();
+    const match = /^[^\s{}#,']+/.exec(this.source.slice(this.pos));
+    if (!match) return '';
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.source[this.pos] ?? '')) {
+      this.pos++;
+    }
+  }
+
+  private expect(char: string) {
+    this.skipWhitespace();
+    if (this.source[this.pos] !== char) {
+      throw this.error(`Expected "${char}"`);
+    }
+    this.pos++;
+  }
+}
+
+// Parsed messages, keyed by language and then by message source
+const messageCache = new Map<string, Map<string, MessageAst>>();
+
+// Intl formatters are expensive to construct, so share them
+const formatterCache = new Map<string, unknown>();
+
+function getFormatter<T>(key: string, create: () => T): T {
+  let formatter = formatterCache.get(key) as T | undefined;
+  if (!formatter) {
+    formatter = create();
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns the parsed AST for a message, parsing it on first use
+ *
+ * @param message - Message source
+ * @param language - Language the message belongs to
+ */
+export function getParsedMessage(
+  message: string,
+  language: string
+): MessageAst {
+  let languageCache = messageCache.get(language);
+  if (!languageCache) {
+    languageCache = new Map();
+    messageCache.set(language, languageCache);
+  }
+
+  let ast = languageCache.get(message);
+  if (!ast) {
+    ast = parseMessage(message);
+    languageCache.set(message, ast);
+  }
+  return ast;
+}
+
+/**
+ * Clears cached parsed messages for one language, or for all languages
+ */
+export function clearMessageCache(language?: string): void {
+  if (language === undefined) {
+    messageCache.clear();
+  } else {
+    messageCache.delete(language);
+  }
+}
+
+/**
+ * Formats an ICU message with the given values
+ *
+ * Messages without any `{` are returned unchanged, so plain strings never
+ * pay for parsing. Arguments without a value are left in the output as
+ * written, which keeps `{{name}}` visible for later replacement.
+ *
+ * @param message - ICU message
+ * @param values - Values for the message arguments
+ * @param language - Language used for plural rules and number/date formatting
+ * @returns Formatted string
+ *
+ * @example
+ * ```typescript
+ * formatMessage('{count, plural, one {# item} other {# items}}', { count: 3 }, 'en')
+ * // => '3 items'
+ *
+ * formatMessage('{gender, select, female {She} male {He} other {They}} replied', { gender: 'female' }, 'en')
+ * // => 'She replied'
+ * ```
+ */
+export function formatMessage(
+  message: string,
+  values: MessageValues = {},
+  language: string
+): string {
+  if (!message.includes('{')) {
+    return message;
+  }
+  return formatAst(getParsedMessage(message, language), values, language);
+}
+
+function formatAst(
+  ast: MessageAst,
+  values: MessageValues,
+  language: string,
+  pluralValue?: number
+): string {
+  let result = '';
+
+  for (const node of ast) {
+    if (typeof node === 'string') {
+      result += node;
+      continue;
+    }
+
+    switch (node.type) {
+      case 'pound':
+        result +=
+          pluralValue === undefined ? '#' : formatNumber(pluralValue, language);
+        break;
+      case 'argument':
+        result += formatArgument(node, values, language);
+        break;
+      case 'plural': {
+        const value = Number(values[node.name]);
+        const option =
+          node.options[`=${value}`] ??
+          node.options[
+            getPluralCategory(value - node.offset, language, node.ordinal)
+          ] ??
+          node.options.other;
+        result += formatAst(option, values, language, value - node.offset);
+        break;
+      }
+      case 'select': {
+        const option =
+          node.options[String(values[node.name])] ?? node.options.other;
+        result += formatAst(option, values, language, pluralValue);
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+function formatArgument(
+  node: ArgumentNode,
+  values: MessageValues,
+  language: string
+): string {
+  const value = values[node.name];
+
+  if (value === undefined || value === null) {
+    return node.legacy ? `{{${node.name}}}` : `{${node.name}}`;
+  }
+
+  switch (node.format) {
+    case 'number':
+      return formatNumber(Number(value), language, node.style);
+    case 'date':
+    case 'time': {
+      // Skeletons (::yyyyMMdd) and other styles get the default format
+      const style = DATE_STYLES.find((name) => name === node.style) ?? 'medium';
+      const options: Intl.DateTimeFormatOptions =
+        node.format === 'date' ? { dateStyle: style } : { timeStyle: style };
+      return getFormatter(
+        `${node.format}:${language}:${style}`,
+        () => new Intl.DateTimeFormat(language, options)
+      ).format(value instanceof Date ? value : new Date(value as number));
+    }
+    default:
+      return String(value);
+  }
+}
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'] as const;
+
+// Styles other than these, such as currency or skeletons, get the plain format
+const NUMBER_STYLES: Record<string, Intl.NumberFormatOptions> = {
+  integer: { maximumFractionDigits: 0 },
+  percent: { style: 'percent' },
+};
+
+function formatNumber(value: number, language: string, style?: string): string {
+  const known =
+    style !== undefined &&
+    Object.prototype.hasOwnProperty.call(NUMBER_STYLES, style);
+  const options = known ? NUMBER_STYLES[style] : {};
+  return getFormatter(
+    `number:${language}:${known ? style : ''}`,
+    () => new Intl.NumberFormat(language, options)
+  ).format(value);
+}
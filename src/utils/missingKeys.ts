@@ -0,0 +1,111 @@
+/**
+ * Missing translation reporting
+ *
+ * A key is missing when the requested language (or one of its regional
+ * fallbacks) doesn't have it, so the text comes from the default language
+ * or the key itself is shown.
+ */
+
+import { ResolvedTranslation } from '../types/translations';
+
+/**
+ * What t() returns for a missing key
+ * - 'fallback': the default-language text, or the key when that misses too
+ * - 'key': the key
+ * - 'marker': a visible marker such as ⟦common:nav.back⟧
+ */
+export type MissingKeyStrategy = 'fallback' | 'key' | 'marker';
+
+/**
+ * Called once per missing language/namespace/key combination
+ */
+export type MissingKeyHandler = (
+  language: string,
+  namespace: string,
+  key: string
+) => void;
+
+/**
+ * A missing key gathered during the session
+ */
+export interface MissingKey {
+  language: string;
+  namespace: string;
+  key: string;
+  /** Default-language text, to give translators the source */
+  defaultValue?: string;
+}
+
+export interface MissingKeyTracker {
+  /** Reports a miss; repeated misses of the same key are ignored */
+  report: (missing: MissingKey) => void;
+  /** Every miss so far, in development; empty in production */
+  getMissingKeys: () => MissingKey[];
+}
+
+const isDevelopment =
+  typeof process === 'undefined' || process.env.NODE_ENV !== 'production';
+
+/**
+ * Builds the marker shown for a missing key with the 'marker' strategy
+ */
+export function formatMissingKeyMarker(namespace: string, key: string): string {
+  return `⟦${namespace}:${key}⟧`;
+}
+
+/**
+ * Creates a tracker that deduplicates misses and passes new ones to the
+ * handler. Without a handler, misses are logged in development.
+ *
+ * @param getHandler - Returns the current handler, so it may change between renders
+ */
+export function createMissingKeyTracker(
+  getHandler: () => MissingKeyHandler | undefined
+): MissingKeyTracker {
+  const reported = new Map<string, MissingKey>();
+
+  const report = (missing: MissingKey) => {
+    const id = `${missing.language}/${missing.namespace}:${missing.key}`;
+    if (reported.has(id)) return;
+    reported.set(id, missing);
+
+    const handler = getHandler();
+    if (handler) {
+      // Deferred, since t() runs while rendering
+      Promise.resolve()
+        .then(() => handler(missing.language, missing.namespace, missing.key))
+        .catch((error) => console.error('onMissingKey failed:', error));
+    } else if (isDevelopment) {
+      console.warn(`Missing translation: ${id}`);
+    }
+  };
+
+  const getMissingKeys = () =>
+    isDevelopment ? Array.from(reported.values()) : [];
+
+  return { report, getMissingKeys };
+}
+
+/**
+ * Applies the strategy to a resolved translation of a missing key
+ *
+ * @param resolved - Result of resolving the key through the fallback chain
+ */
+export function applyMissingKeyStrategy(
+  resolved: ResolvedTranslation,
+  strategy: MissingKeyStrategy,
+  namespace: string,
+  key: string
+): ResolvedTranslation {
+  switch (strategy) {
+    case 'key':
+      return { value: key, language: undefined };
+    case 'marker':
+      return {
+        value: formatMissingKeyMarker(namespace, key),
+        language: undefined,
+      };
+    default:
+      return resolved;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Where namespace files are served from
+ */
+export interface NamespaceUrlOptions {
+  translationManifest: Record<string, string>;
+  localesPath?: string;
+  localesHashedPath?: string;
+}
+
+/**
+ * A manifest entry, split into the hashed file and, for a namespace in a
+ * bundle, its key inside the bundle
+ *
+ * @example
+ * ```typescript
+ * parseManifestEntry('es/core.bundle.a1b2c3d4.json#nav')
+ * // => { file: 'es/core.bundle.a1b2c3d4.json', bundleKey: 'nav' }
+ * ```
+ */
+export function parseManifestEntry(entry: string): {
+  file: string;
+  bundleKey?: string;
+} {
+  const hashIndex = entry.indexOf('#');
+  if (hashIndex === -1) {
+    return { file: entry };
+  }
+  return {
+    file: entry.slice(0, hashIndex),
+    bundleKey: entry.slice(hashIndex + 1),
+  };
+}
+
+/**
+ * Builds the URL of a namespace file, preferring the hashed file from the manifest
+ * For a namespace in a bundle, this is the URL of the bundle
+ *
+ * @example
+ * ```typescript
+ * getNamespaceUrl('es', 'common', { translationManifest: { 'es/common': 'es/common.a1b2c3d4.json' } })
+ * // => '/locales-hashed/es/common.a1b2c3d4.json'
+ * ```
+ */
+export function getNamespaceUrl(
+  language: string,
+  namespace: string,
+  {
+    translationManifest,
+    localesPath = '/locales',
+    localesHashedPath = '/locales-hashed',
+  }: NamespaceUrlOptions
+): string {
+  // Use the pre-built manifest to get the hashed filename
+  const hashedFilename = translationManifest[`${language}/${namespace}`];
+  if (hashedFilename) {
+    return `${localesHashedPath}/${parseManifestEntry(hashedFilename).file}`;
+  }
+  return `${localesPath}/${language}/${namespace}.json`;
+}
+
+/**
+ * Fetches a namespace of a language
+ * Resolves to undefined when the namespace doesn't exist in that language
+ */
+export type FetchNamespace = (
+  language: string,
+  namespace: string,
+  signal: AbortSignal
+) => Promise<unknown>;
+
+export interface NamespaceLoader {
+  /**
+   * Loads a namespace, sharing the in-flight request when the same
+   * language/namespace pair is already being loaded, and answering from
+   * the cache once it has been loaded
+   *
+   * @param options.prefetch - Keep the request alive through abortExcept
+   */
+  load: (
+    language: string,
+    namespace: string,
+    options?: { prefetch?: boolean }
+  ) => Promise<unknown>;
+  /** Cancels every in-flight request for a language not in the list, except prefetches */
+  abortExcept: (languages: readonly string[]) => void;
+}
+
+/**
+ * Creates a loader that deduplicates and cancels namespace requests
+ *
+ * @param fetchNamespace - Performs the actual request
+ *
+ * @example
+ * ```typescript
+ * const loader = createNamespaceLoader((language, namespace, signal) =>
+ *   fetch(`/locales/${language}/${namespace}.json`, { signal }).then((res) =>
+ *     res.ok ? res.json() : undefined
+ *   )
+ * );
+ * await Promise.all([loader.load('es', 'common'), loader.load('es', 'common')]); // one request
+ * ```
+ */
+export function createNamespaceLoader(
+  fetchNamespace: FetchNamespace
+): NamespaceLoader {
+  const inFlight = new Map<
+    string,
+    {
+      language: string;
+      promise: Promise<unknown>;
+      controller: AbortController;
+      prefetch: boolean;
+    }
+  >();
+  const cache = new Map<string, unknown>();
+
+  const load = (
+    language: string,
+    namespace: string,
+    { prefetch = false }: { prefetch?: boolean } = {}
+  ) => {
+    const key = `${language}/${namespace}`;
+    if (cache.has(key)) {
+      return Promise.resolve(cache.get(key));
+    }
+    const existing = inFlight.get(key);
+    if (existing) {
+      return existing.promise;
+    }
+
+    const controller = new AbortController();
+    const promise = fetchNamespace(language, namespace, controller.signal);
+    const entry = { language, promise, controller, prefetch };
+    inFlight.set(key, entry);
+
+    const settle = () => {
+      if (inFlight.get(key) === entry) {
+        inFlight.delete(key);
+      }
+    };
+    promise.then((data) => {
+      cache.set(key, data);
+      settle();
+    }, settle);
+
+    return promise;
+  };
+
+  const abortExcept = (languages: readonly string[]) => {
+    for (const [key, entry] of inFlight) {
+      if (!entry.prefetch && !languages.includes(entry.language)) {
+        entry.controller.abort();
+        inFlight.delete(key);
+      }
+    }
+  };
+
+  return { load, abortExcept };
+}
+
+/**
+ * Checks whether an error comes from an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
@@ -0,0 +1,143 @@
+import { readCookie } from './cookies';
+
+/**
+ * Where the chosen language is saved between visits
+ */
+export interface PersistenceAdapter {
+  /** Returns the saved language, if any */
+  get: () => string | null | undefined;
+  /** Saves the chosen language */
+  set: (language: string) => void;
+}
+
+/**
+ * Reads the saved language, treating any failure as "nothing saved"
+ * (e.g. storage blocked in a sandboxed iframe)
+ */
+export function readPersistedLanguage(
+  adapter: PersistenceAdapter
+): string | undefined {
+  try {
+    return adapter.get() ?? undefined;
+  } catch (error) {
+    console.warn('Failed to read the saved language:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Saves the language, logging instead of throwing when that fails
+ */
+export function writePersistedLanguage(
+  adapter: PersistenceAdapter,
+  language: string
+): void {
+  try {
+    adapter.set(language);
+  } catch (error) {
+    console.warn('Failed to save the language:', error);
+  }
+}
+
+function webStoragePersistence(
+  getStorage: () => Storage,
+  key: string
+): PersistenceAdapter {
+  return {
+    // Accessing window.localStorage itself throws when storage is blocked
+    get: () =>
+      typeof window === 'undefined' ? null : getStorage().getItem(key),
+    set: (language) => {
+      if (typeof window !== 'undefined') {
+        getStorage().setItem(key, language);
+      }
+    },
+  };
+}
+
+/**
+ * Saves the language in localStorage
+ *
+ * @param options.key - Storage key
+ */
+export function localStoragePersistence({
+  key = 'language',
+}: { key?: string } = {}): PersistenceAdapter {
+  return webStoragePersistence(() => window.localStorage, key);
+}
+
+/**
+ * Saves the language in sessionStorage, so it only lasts for the tab
+ *
+ * @param options.key - Storage key
+ */
+export function sessionStoragePersistence({
+  key = 'language',
+}: { key?: string } = {}): PersistenceAdapter {
+  return webStoragePersistence(() => window.sessionStorage, key);
+}
+
+/**
+ * Saves the language in a cookie, so a server can read it too
+ *
+ * @param options.name - Cookie name
+ * @param options.maxAge - Lifetime in seconds (defaults to one year)
+ * @param options.path - Cookie path
+ * @param options.sameSite - SameSite attribute
+ * @param options.secure - Only send the cookie over HTTPS
+ * @param options.domain - Cookie domain
+ */
+export function cookiePersistence({
+  name = 'language',
+  maxAge = 60 * 60 * 24 * 365,
+  path = '/',
+  sameSite = 'Lax',
+  secure = false,
+  domain,
+}: {
+  name?: string;
+  maxAge?: number;
+  path?: string;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  secure?: boolean;
+  domain?: string;
+} = {}): PersistenceAdapter {
+  return {
+    get: () => readCookie(name),
+    set: (language) => {
+      if (typeof document === 'undefined') return;
+
+      let cookie = `${name}=${encodeURIComponent(language)}; Max-Age=${maxAge}; Path=${path}; SameSite=${sameSite}`;
+      if (domain) cookie += `; Domain=${domain}`;
+      if (secure || sameSite === 'None') cookie += '; Secure';
+      document.cookie = cookie;
+    },
+  };
+}
+
+/**
+ * Keeps the language in memory only, e.g. for tests or embedded widgets
+ *
+ * @param initialLanguage - Language returned before anything is saved
+ */
+export function memoryPersistence(
+  initialLanguage?: string
+): PersistenceAdapter {
+  let saved = initialLanguage;
+  return {
+    get: () => saved,
+    set: (language) => {
+      saved = language;
+    },
+  };
+}
+
+/**
+ * Never saves the language
+ */
+export function noPersistence(): PersistenceAdapter {
+  return {
+    get: () => undefined,
+    set: () => undefined,
+  };
+}
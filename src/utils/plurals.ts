@@ -0,0 +1,111 @@
+/**
+ * CLDR plural category support for suffixed translation keys
+ *
+ * A key such as `items` can be split into `items_zero`, `items_one`,
+ * `items_two`, `items_few`, `items_many` and `items_other` (or
+ * `items_ordinal_one`, ... for ordinals). `t('items', { count })` picks the
+ * variant that `Intl.PluralRules` selects for the active language.
+ */
+
+export const PLURAL_CATEGORIES: readonly Intl.LDMLPluralRule[] = [
+  'zero',
+  'one',
+  'two',
+  'few',
+  'many',
+  'other',
+];
+
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+
+/**
+ * Returns a cached Intl.PluralRules instance for a language
+ *
+ * @param language - Language code
+ * @param ordinal - Use ordinal rules (1st, 2nd, ...) instead of cardinal ones
+ */
+export function getPluralRules(
+  language: string,
+  ordinal = false
+): Intl.PluralRules {
+  const cacheKey = `${language}:${ordinal}`;
+  let rules = pluralRulesCache.get(cacheKey);
+  if (!rules) {
+    rules = new Intl.PluralRules(language, {
+      type: ordinal ? 'ordinal' : 'cardinal',
+    });
+    pluralRulesCache.set(cacheKey, rules);
+  }
+  return rules;
+}
+
+/**
+ * Gets the plural category of a number in a language
+ *
+ * @example
+ * ```typescript
+ * getPluralCategory(3, 'ru') // => 'few'
+ * getPluralCategory(2, 'en', true) // => 'two' (2nd)
+ * ```
+ */
+export function getPluralCategory(
+  count: number,
+  language: string,
+  ordinal = false
+): Intl.LDMLPluralRule {
+  return getPluralRules(language, ordinal).select(count);
+}
+
+/**
+ * Picks the plural variant of a key from its parent object
+ *
+ * An exact `_zero` variant always wins for a count of 0, even in languages
+ * whose rules have no zero category. Missing categories fall back to
+ * `_other`. Ordinal variants are used when `ordinal` is set, or when the key
+ * only has ordinal variants.
+ *
+ * @param parent - Object holding the suffixed keys
+ * @param key - Key without suffix
+ * @param count - Number deciding the category
+ * @param language - Language whose plural rules apply
+ * @param ordinal - Select among `_ordinal_*` variants
+ * @returns The variant text, or undefined when the key has no plural variants
+ *
+ * @example
+ * ```typescript
+ * selectPluralVariant(
+ *   { items_one: '{{count}} plik', items_few: '{{count}} pliki', items_many: '{{count}} plików', items_other: '{{count}} pliku' },
+ *   'items',
+ *   5,
+ *   'pl'
+ * )
+ * // => '{{count}} plików'
+ * ```
+ */
+export function selectPluralVariant(
+  parent: Record<string, unknown>,
+  key: string,
+  count: number,
+  language: string,
+  ordinal = false
+): string | undefined {
+  const useOrdinal =
+    ordinal ||
+    (parent[`${key}_other`] === undefined &&
+      parent[`${key}_ordinal_other`] !== undefined);
+  const prefix = useOrdinal ? `${key}_ordinal_` : `${key}_`;
+
+  const candidates = [
+    count === 0 ? 'zero' : undefined,
+    getPluralCategory(count, language, useOrdinal),
+    'other',
+  ];
+
+  for (const category of candidates) {
+    const value = category && parent[`${prefix}${category}`];
+    if (typeof value === 'string') {
+      return value;
+    }
+  }
+  return undefined;
+}
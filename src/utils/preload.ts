@@ -0,0 +1,74 @@
+/**
+ * Preload hints for translation files
+ *
+ * Lets the browser start downloading the namespaces of a page while the
+ * JavaScript is still loading, instead of waiting for the provider to mount.
+ */
+
+import { getNamespaceUrl, NamespaceUrlOptions } from './namespaceLoader';
+
+/**
+ * Attributes of a `<link rel="preload" as="fetch">` element
+ */
+export interface PreloadLink {
+  rel: 'preload';
+  as: 'fetch';
+  href: string;
+  /** Must match the CORS mode of fetch() for the preload to be reused */
+  crossOrigin: 'anonymous';
+}
+
+export interface PreloadLinksOptions extends NamespaceUrlOptions {
+  /** Languages to preload; the default language is bundled and skipped */
+  languages: readonly string[];
+  namespaces: readonly string[];
+  defaultLanguage?: string;
+}
+
+/**
+ * Builds preload link descriptors for the namespace files of some languages
+ * The URLs are the same ones TranslationProvider fetches, so the browser
+ * serves the provider's requests from the preloaded responses
+ *
+ * @example
+ * ```tsx
+ * // app/[lang]/layout.tsx
+ * const links = getPreloadLinks({
+ *   languages: [params.lang],
+ *   namespaces: ['common', 'home'],
+ *   defaultLanguage: 'en',
+ *   translationManifest,
+ * });
+ *
+ * <head>
+ *   {links.map((link) => <link key={link.href} {...link} />)}
+ * </head>
+ * ```
+ */
+export function getPreloadLinks({
+  languages,
+  namespaces,
+  defaultLanguage,
+  ...urlOptions
+}: PreloadLinksOptions): PreloadLink[] {
+  const links: PreloadLink[] = [];
+  const seen = new Set<string>();
+
+  for (const language of languages) {
+    if (language === defaultLanguage) continue;
+
+    for (const namespace of namespaces) {
+      const href = getNamespaceUrl(language, namespace, urlOptions);
+      if (seen.has(href)) continue;
+      seen.add(href);
+      links.push({
+        rel: 'preload',
+        as: 'fetch',
+        href,
+        crossOrigin: 'anonymous',
+      });
+    }
+  }
+
+  return links;
+}
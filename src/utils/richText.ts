@@ -0,0 +1,145 @@
+/**
+ * Rich text: translations with tags and React node values
+ *
+ * `<link>terms</link>` and `<br/>` in a translation are mapped to React
+ * elements or render functions passed under the tag's name. Values that
+ * are React nodes can fill `{{name}}` and `{name}` placeholders.
+ */
+
+import React, { ReactNode } from 'react';
+import type { RichTagRenderer } from '../types/translations';
+import { MessageValues } from './messageFormat';
+
+/**
+ * Values of a rich translation: plain values, React nodes and tag renderers
+ */
+export type RichValues = Record<
+  string,
+  MessageValues[string] | ReactNode | RichTagRenderer
+>;
+
+// Private use characters, which never appear in translations
+const MARKER_START = '\uE000';
+const MARKER_END = '\uE001';
+
+const TOKEN = /<(\/?)([A-Za-z][\w-]*)\s*(\/?)>|\uE000(\d+)\uE001/g;
+
+function isPlainValue(value: unknown): value is MessageValues[string] {
+  return (
+    value === null ||
+    value === undefined ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean' ||
+    value instanceof Date
+  );
+}
+
+interface Frame {
+  name: string;
+  source: string;
+  children: ReactNode[];
+}
+
+/**
+ * Formats a translation with rich values into React nodes
+ *
+ * @param values - Plain values, React nodes and tag renderers
+ * @param format - Formats the translation with plain values; React nodes
+ *   are passed in as markers that are swapped back afterwards
+ * @returns The text, or a fragment when it contains tags or React nodes
+ *
+ * @example
+ * ```tsx
+ * formatRichText(
+ *   { name: <b>Ana</b>, link: (chunks) => <a href="/terms">{chunks}</a> },
+ *   (values) => formatMessage('Hi {{name}}, read the <link>terms</link>', values, 'en')
+ * )
+ * ```
+ */
+export function formatRichText(
+  values: RichValues | undefined,
+  format: (values: MessageValues | undefined) => string
+): ReactNode {
+  const nodes: ReactNode[] = [];
+  let plainValues: MessageValues | undefined;
+
+  if (values) {
+    plainValues = {};
+    for (const [name, value] of Object.entries(values)) {
+      if (isPlainValue(value)) {
+        plainValues[name] = value;
+      } else if (typeof value !== 'function') {
+        plainValues[name] = `${MARKER_START}${nodes.length}${MARKER_END}`;
+        nodes.push(value as ReactNode);
+      }
+    }
+  }
+
+  const text = format(plainValues);
+  if (!text.includes('<') && nodes.length === 0) {
+    return text;
+  }
+
+  const getTag = (name: string): RichTagRenderer | undefined => {
+    const value = values?.[name];
+    return typeof value === 'function' || React.isValidElement(value)
+      ? (value as RichTagRenderer)
+      : undefined;
+  };
+
+  const renderTag = (tag: RichTagRenderer, children: ReactNode[]) =>
+    typeof tag === 'function'
+      ? tag(React.createElement(React.Fragment, null, ...children))
+      : React.cloneElement(tag, undefined, ...children);
+
+  const root: Frame = { name: '', source: '', children: [] };
+  const stack = [root];
+  const current = () => stack[stack.length - 1];
+  let lastIndex = 0;
+
+  // Unknown and unclosed tags stay in the output as text
+  const closeAsText = (frame: Frame) => {
+    current().children.push(frame.source, ...frame.children);
+  };
+
+  for (const match of text.matchAll(TOKEN)) {
+    const [source, closing, name, selfClosing, nodeIndex] = match;
+    if (match.index! > lastIndex) {
+      current().children.push(text.slice(lastIndex, match.index));
+    }
+    lastIndex = match.index! + source.length;
+
+    if (nodeIndex !== undefined) {
+      current().children.push(nodes[Number(nodeIndex)]);
+      continue;
+    }
+
+    const tag = getTag(name);
+    if (!tag) {
+      current().children.push(source);
+    } else if (selfClosing) {
+      current().children.push(renderTag(tag, []));
+    } else if (!closing) {
+      stack.push({ name, source, children: [] });
+    } else if (stack.some((frame) => frame !== root && frame.name === name)) {
+      // Tags closed out of order are unwound as text
+      while (current().name !== name) {
+        closeAsText(stack.pop()!);
+      }
+      const frame = stack.pop()!;
+      current().children.push(renderTag(tag, frame.children));
+    } else {
+      current().children.push(source);
+    }
+  }
+
+  if (lastIndex < text.length) {
+    current().children.push(text.slice(lastIndex));
+  }
+  while (stack.length > 1) {
+    closeAsText(stack.pop()!);
+  }
+
+  return React.createElement(React.Fragment, null, ...root.children);
+}
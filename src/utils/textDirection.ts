@@ -0,0 +1,117 @@
+/**
+ * Text direction and script of languages
+ *
+ * Uses the text info of `Intl.Locale` where the runtime has it (Chrome,
+ * Safari, Node 18+), and a list of right-to-left scripts and languages
+ * otherwise.
+ */
+
+import { LanguageConfig } from '../types/languages';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// ISO 15924 codes of scripts written right to left
+const RTL_SCRIPTS = new Set([
+  'Adlm',
+  'Arab',
+  'Hebr',
+  'Mand',
+  'Nkoo',
+  'Rohg',
+  'Samr',
+  'Syrc',
+  'Thaa',
+]);
+
+// Languages written right to left by default, for runtimes without
+// Intl.Locale#maximize
+const RTL_LANGUAGES = new Set([
+  'ar',
+  'arc',
+  'ckb',
+  'dv',
+  'fa',
+  'he',
+  'ks',
+  'ps',
+  'sd',
+  'ug',
+  'ur',
+  'yi',
+]);
+
+// Intl.Locale members that aren't in the ES2020 lib yet; older engines
+// expose textInfo as a getter, newer ones as getTextInfo()
+interface LocaleWithTextInfo extends Intl.Locale {
+  textInfo?: { direction?: string };
+  getTextInfo?: () => { direction?: string };
+}
+
+const localeInfoCache = new Map<
+  string,
+  { locale: string; script?: string; dir: TextDirection }
+>();
+
+/**
+ * Returns the canonical locale, script and text direction of a language code
+ * Invalid codes are returned as they are, left to right.
+ *
+ * @param language - BCP 47 language code, e.g. 'ar' or 'az-Arab'
+ */
+export function getLocaleInfo(language: string): {
+  locale: string;
+  script?: string;
+  dir: TextDirection;
+} {
+  let info = localeInfoCache.get(language);
+  if (info) {
+    return info;
+  }
+
+  try {
+    const locale = new Intl.Locale(language) as LocaleWithTextInfo;
+    const script = locale.script ?? locale.maximize?.().script;
+    const textInfo = locale.getTextInfo?.() ?? locale.textInfo;
+    let dir: TextDirection;
+    // Some engines ignore an explicit script (az-Arab) in the text info
+    if (textInfo?.direction && !locale.script) {
+      dir = textInfo.direction === 'rtl' ? 'rtl' : 'ltr';
+    } else if (script) {
+      dir = RTL_SCRIPTS.has(script) ? 'rtl' : 'ltr';
+    } else {
+      dir = RTL_LANGUAGES.has(locale.language) ? 'rtl' : 'ltr';
+    }
+    info = { locale: locale.toString(), script, dir };
+  } catch {
+    // Not a valid language tag, or no Intl.Locale
+    info = {
+      locale: language,
+      dir: RTL_LANGUAGES.has(language.split(/[-_]/)[0].toLowerCase())
+        ? 'rtl'
+        : 'ltr',
+    };
+  }
+
+  localeInfoCache.set(language, info);
+  return info;
+}
+
+/**
+ * Returns whether a language is written left to right or right to left
+ *
+ * @param language - Language code
+ * @param languages - Language configurations; an explicit `dir` there wins
+ *
+ * @example
+ * ```typescript
+ * getTextDirection('ar'); // 'rtl'
+ * getTextDirection('en'); // 'ltr'
+ * ```
+ */
+export function getTextDirection(
+  language: string,
+  languages?: readonly LanguageConfig[]
+): TextDirection {
+  const config = languages?.find((lang) => lang.code === language);
+  return config?.dir ?? getLocaleInfo(language).dir;
+}
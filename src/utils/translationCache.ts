@@ -0,0 +1,239 @@
+/**
+ * Persistent offline cache for namespaces
+ *
+ * Namespaces are stored under their hashed manifest entry
+ * (`es/common.a1b2c3d4.json`), so a stored entry is valid for as long as
+ * the manifest lists it. Namespaces missing from the manifest are stored
+ * under `es/common.json` and revalidated in the background.
+ */
+
+import { fetchBackend, TranslationBackend } from './backends';
+
+/**
+ * A stored namespace
+ */
+export interface TranslationCacheEntry {
+  data: unknown;
+  /** Whether the key is a hashed manifest entry */
+  hashed: boolean;
+  /** `<language>/<namespace>` the entry belongs to */
+  id: string;
+}
+
+/**
+ * Key/value storage for cached namespaces
+ */
+export interface TranslationCacheStore {
+  get: (key: string) => Promise<TranslationCacheEntry | undefined>;
+  set: (key: string, entry: TranslationCacheEntry) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores namespaces in IndexedDB
+ *
+ * @param options.name - Database name
+ */
+export function indexedDBStore({
+  name = 'use-translation',
+}: { name?: string } = {}): TranslationCacheStore {
+  const storeName = 'namespaces';
+  let database: Promise<IDBDatabase> | undefined;
+
+  const open = () => {
+    if (!database) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available'));
+      }
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      database = requestToPromise(request);
+      // Allow another attempt after a failure (e.g. blocked in private mode)
+      database.catch(() => {
+        database = undefined;
+      });
+    }
+    return database;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open();
+    return requestToPromise(
+      operation(db.transaction(storeName, mode).objectStore(storeName))
+    );
+  };
+
+  return {
+    get: (key) => run('readonly', (store) => store.get(key)),
+    set: async (key, entry) => {
+      await run('readwrite', (store) => store.put(entry, key));
+    },
+    delete: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+    },
+    keys: async () =>
+      (await run('readonly', (store) => store.getAllKeys())).map(String),
+  };
+}
+
+/**
+ * Stores namespaces with the Cache Storage API, e.g. to share them with a
+ * service worker
+ *
+ * @param options.name - Cache name
+ */
+export function cacheStorageStore({
+  name = 'use-translation',
+}: { name?: string } = {}): TranslationCacheStore {
+  // Cache Storage is keyed by URL, so keys live under a reserved path
+  const prefix = '/__use-translation__/';
+
+  const open = () => {
+    if (typeof caches === 'undefined') {
+      return Promise.reject(new Error('Cache Storage is not available'));
+    }
+    return caches.open(name);
+  };
+
+  return {
+    get: async (key) => {
+      const response = await (await open()).match(prefix + key);
+      return response ? response.json() : undefined;
+    },
+    set: async (key, entry) => {
+      await (
+        await open()
+      ).put(
+        prefix + key,
+        new Response(JSON.stringify(entry), {
+          headers: { 'Content-Type': 'application/json' },
+        })
+      );
+    },
+    delete: async (key) => {
+      await (await open()).delete(prefix + key);
+    },
+    keys: async () =>
+      (await (await open()).keys())
+        .map((request) => new URL(request.url).pathname)
+        .filter((pathname) => pathname.startsWith(prefix))
+        .map((pathname) => decodeURI(pathname.slice(prefix.length))),
+  };
+}
+
+export interface PersistentCacheOptions {
+  /** Manifest generated by hashTranslations */
+  translationManifest: Record<string, string>;
+  /** Where entries are stored (default: indexedDBStore()) */
+  store?: TranslationCacheStore;
+  /** Where namespaces come from on a cache miss (default: fetchBackend) */
+  backend?: TranslationBackend;
+}
+
+/**
+ * Wraps a backend with a persistent cache, so namespaces load instantly
+ * and keep working offline
+ *
+ * Cached namespaces are returned straight away. Unhashed ones are then
+ * refetched in the background and the fresh copy is used on the next load.
+ * Entries whose hash is no longer in the manifest are evicted. Storage
+ * failures are logged and fall back to the wrapped backend.
+ *
+ * @example
+ * ```tsx
+ * const backend = persistentCacheBackend({ translationManifest });
+ * // or: persistentCacheBackend({ translationManifest, store: cacheStorageStore() })
+ *
+ * <TranslationProvider backend={backend} ...>
+ * ```
+ */
+export function persistentCacheBackend({
+  translationManifest,
+  store = indexedDBStore(),
+  backend = fetchBackend({ translationManifest }),
+}: PersistentCacheOptions): TranslationBackend {
+  let eviction: Promise<void> | undefined;
+
+  const evictStale = async () => {
+    const current = new Set(Object.values(translationManifest));
+    for (const key of await store.keys()) {
+      const entry = await store.get(key);
+      const stale = entry?.hashed
+        ? !current.has(key)
+        : // The namespace has been hashed since it was stored
+          entry !== undefined && entry.id in translationManifest;
+      if (stale) {
+        await store.delete(key);
+      }
+    }
+  };
+
+  const save = (key: string, entry: TranslationCacheEntry) =>
+    store.set(key, entry).catch((error) => {
+      console.warn(`Failed to cache translation ${key}:`, error);
+    });
+
+  const revalidate = (
+    language: string,
+    namespace: string,
+    key: string,
+    id: string
+  ) => {
+    backend
+      .load(language, namespace, { signal: new AbortController().signal })
+      .then((data) => {
+        if (data !== undefined) {
+          return save(key, { data, hashed: false, id });
+        }
+      })
+      // Offline: keep serving the stored copy
+      .catch(() => undefined);
+  };
+
+  return {
+    load: async (language, namespace, options) => {
+      if (!eviction) {
+        eviction = evictStale().catch((error) => {
+          console.warn('Failed to evict cached translations:', error);
+        });
+      }
+
+      const id = `${language}/${namespace}`;
+      const hashedFilename = translationManifest[id];
+      const key = hashedFilename ?? `${id}.json`;
+
+      let cached: TranslationCacheEntry | undefined;
+      try {
+        cached = await store.get(key);
+      } catch (error) {
+        console.warn(`Failed to read cached translation ${key}:`, error);
+      }
+
+      if (cached) {
+        if (!cached.hashed) {
+          revalidate(language, namespace, key, id);
+        }
+        return cached.data;
+      }
+
+      const data = await backend.load(language, namespace, options);
+      if (data !== undefined) {
+        save(key, { data, hashed: Boolean(hashedFilename), id });
+      }
+      return data;
+    },
+  };
+}
@@ -2,6 +2,10 @@
  * Helper utilities for working with translations
  */
 
+import { ResolvedTranslation } from '../types/translations';
+import { formatMessage, MessageValues } from './messageFormat';
+import { selectPluralVariant } from './plurals';
+
 /**
  * Interpolates variables in a translation string
  *
@@ -32,6 +36,9 @@ export function interpolate(
 /**
  * Formats a string based on plural rules
  *
+ * Only knows the English one/other split. For other languages use suffixed
+ * keys (`items_one`, `items_few`, ...) with `t(key, { count })`.
+ *
  * @param count - Number to check
  * @param one - Singular form
  * @param other - Plural form (can include {{count}} placeholder)
@@ -203,3 +210,222 @@ export function hasTranslationKey(
     return false;
   }
 }
+
+/**
+ * Gets the raw message for a dot-notation key in one namespace
+ * When a numeric `count` is given, the matching plural variant
+ * (`items_one`, `items_few`, ...) takes precedence over the plain key
+ *
+ * @param namespaceTranslations - Translations of a single namespace
+ * @param key - Dot-notation key
+ * @param values - Interpolation values, checked for `count` and `ordinal`
+ * @param language - Language whose plural rules apply
+ * @returns The message, or undefined when the key is missing
+ *
+ * @example
+ * ```typescript
+ * getTranslationValue({ nav: { back: 'Back' } }, 'nav.back', undefined, 'en')
+ * // => 'Back'
+ * ```
+ */
+export function getTranslationValue(
+  namespaceTranslations: any,
+  key: string,
+  values: Record<string, unknown> | undefined,
+  language: string
+): string | undefined {
+  const keyPath = key.split('.');
+  const lastKey = keyPath.pop() as string;
+  let parent = namespaceTranslations;
+
+  for (const k of keyPath) {
+    if (parent === undefined || parent === null) return undefined;
+    parent = parent[k];
+  }
+  if (typeof parent !== 'object' || parent === null) return undefined;
+
+  let value = parent[lastKey];
+  if (typeof values?.count === 'number') {
+    value =
+      selectPluralVariant(
+        parent,
+        lastKey,
+        values.count,
+        language,
+        values.ordinal === true
+      ) ?? value;
+  }
+
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Splits the arguments of t(key, values?, namespace?) after the key
+ * With two arguments, the second is the namespace even when the values are
+ * undefined, as in t('title', maybeValues, 'user')
+ *
+ * @param args - Arguments following the key
+ * @param defaultNamespace - Namespace used when none is passed
+ */
+export function parseTranslateArgs(
+  args: unknown[],
+  defaultNamespace: string
+): { values: MessageValues | undefined; namespace: string } {
+  const values =
+    typeof args[0] === 'object' && args[0] !== null
+      ? (args[0] as MessageValues)
+      : undefined;
+  const namespaceArg =
+    args.length >= 2 ? args[1] : values ? undefined : args[0];
+  const namespace =
+    typeof namespaceArg === 'string' && namespaceArg
+      ? namespaceArg
+      : defaultNamespace;
+  return { values, namespace };
+}
+
+/**
+ * Resolves a key through a fallback chain and formats the message
+ *
+ * @param key - Dot-notation key
+ * @param namespace - Namespace of the key
+ * @param values - Interpolation values
+ * @param fallbackChain - Languages to try, in order
+ * @param getNamespaceTranslations - Returns a language's translations for the
+ *   namespace, or undefined when they aren't loaded. Returning undefined skips
+ *   that language.
+ * @returns The formatted text and its language, or the key when every language misses
+ */
+export function resolveTranslation(
+  key: string,
+  namespace: string,
+  values: MessageValues | undefined,
+  fallbackChain: readonly string[],
+  getNamespaceTranslations: (language: string) => unknown
+): ResolvedTranslation {
+  for (const language of fallbackChain) {
+    const namespaceTranslations = getNamespaceTranslations(language);
+    if (namespaceTranslations === undefined) continue;
+
+    // Get the translation value using the key path (e.g. "site.title")
+    const value = getTranslationValue(
+      namespaceTranslations,
+      key,
+      values,
+      language
+    );
+    if (value === undefined) continue;
+
+    try {
+      return { value: formatMessage(value, values, language), language };
+    } catch (formatError) {
+      console.error(
+        `Invalid message for ${language}/${namespace}:${key}:`,
+        formatError
+      );
+      return { value, language };
+    }
+  }
+
+  return { value: key, language: undefined };
+}
+
+/**
+ * Gets the value at a dot-notation key in one namespace, whatever its type
+ *
+ * @param namespaceTranslations - Translations of a single namespace
+ * @param key - Dot-notation key; array items are keyed by index ('steps.0')
+ * @returns The string, array or object at the key, or undefined when missing
+ */
+export function getRawTranslationValue(
+  namespaceTranslations: unknown,
+  key: string
+): unknown {
+  let value = namespaceTranslations;
+  for (const k of key.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[k];
+  }
+  return value;
+}
+
+/**
+ * Resolves the string, array or object at a key through a fallback chain,
+ * formatting every string in it
+ *
+ * The value comes from the first language that has the key; arrays and
+ * objects aren't merged with the ones of later languages. A string key is
+ * looked up like in resolveTranslation, so plural variants still apply.
+ *
+ * @param key - Dot-notation key
+ * @param namespace - Namespace of the key
+ * @param values - Interpolation values, applied to every string
+ * @param fallbackChain - Languages to try, in order
+ * @param getNamespaceTranslations - See resolveTranslation
+ * @returns The formatted value and its language, or undefined as both when
+ *   every language misses
+ *
+ * @example
+ * ```typescript
+ * resolveRawTranslation('steps', 'common', { name: 'Ana' }, ['es', 'en'], get)
+ * // => { value: ['Hola, Ana', 'Elige un plan'], language: 'es' }
+ * ```
+ */
+export function resolveRawTranslation(
+  key: string,
+  namespace: string,
+  values: MessageValues | undefined,
+  fallbackChain: readonly string[],
+  getNamespaceTranslations: (language: string) => unknown
+): { value: unknown; language: string | undefined } {
+  for (const language of fallbackChain) {
+    const namespaceTranslations = getNamespaceTranslations(language);
+    if (namespaceTranslations === undefined) continue;
+
+    const value =
+      getTranslationValue(namespaceTranslations, key, values, language) ??
+      getRawTranslationValue(namespaceTranslations, key);
+    if (value === undefined) continue;
+
+    const format = (item: unknown, path: string): unknown => {
+      if (typeof item === 'string') {
+        try {
+          return formatMessage(item, values, language);
+        } catch (formatError) {
+          console.error(
+            `Invalid message for ${language}/${namespace}:${path}:`,
+            formatError
+          );
+          return item;
+        }
+      }
+      if (Array.isArray(item)) {
+        return item.map((child, index) => format(child, `${path}.${index}`));
+      }
+      if (typeof item === 'object' && item !== null) {
+        return Object.fromEntries(
+          Object.entries(item).map(([childKey, child]) => [
+            childKey,
+            format(child, `${path}.${childKey}`),
+          ])
+        );
+      }
+      return item;
+    };
+
+    return { value: format(value, key), language };
+  }
+
+  return { value: undefined, language: undefined };
+}
+
+/**
+ * Keeps the strings of an array, for t.list()
+ *
+ * @returns The strings, or an empty list when the value isn't an array
+ */
+export function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
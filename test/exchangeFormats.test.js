@@ -0,0 +1,127 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  detectFormat,
+  serializeExchange,
+  parseExchange,
+} = require('../scripts/exchangeFormats');
+
+const unit = (key, source, target, notes = [], plural) => ({
+  namespace: 'common',
+  key,
+  source,
+  target,
+  notes,
+  ...(plural && { plural }),
+});
+
+const document = {
+  sourceLanguage: 'en',
+  targetLanguage: 'pl',
+  units: [
+    unit('title', 'Say "hi" & <b>', 'Powiedz "cześć"', ['Header']),
+    unit('items_one', '{{count}} item', '{{count}} element', [], 'one'),
+    unit('items_few', '{{count}} items', '{{count}} elementy', [], 'few'),
+    unit('items_many', '{{count}} items', '{{count}} elementów', [], 'many'),
+    unit('items_other', '{{count}} items', '{{count}} elementu', [], 'other'),
+  ],
+};
+
+test('detectFormat reads the file extension', () => {
+  assert.equal(detectFormat('pl.XLF'), 'xliff');
+  assert.equal(detectFormat('messages.pot'), 'pot');
+  assert.equal(detectFormat('pl.json'), undefined);
+});
+
+test('XLIFF round-trips text that needs escaping', () => {
+  const parsed = parseExchange('xliff', serializeExchange('xliff', document));
+  assert.equal(parsed.sourceLanguage, 'en');
+  assert.equal(parsed.targetLanguage, 'pl');
+  assert.deepEqual(
+    parsed.units.map(({ key, source, target }) => [key, source, target]),
+    document.units.map(({ key, source, target }) => [key, source, target])
+  );
+  assert.deepEqual(parsed.units[0].notes, ['Header']);
+});
+
+test('PO writes plural keys as one entry with msgid_plural', () => {
+  const po = serializeExchange('po', document);
+  assert.match(
+    po,
+    /"Plural-Forms: nplurals=4; plural=\(n == 1 \? 0 : .*\);\\n"/
+  );
+  assert.match(
+    po,
+    /msgctxt "common:items"\nmsgid "{{count}} item"\nmsgid_plural "{{count}} items"\nmsgstr\[0\] "{{count}} element"\nmsgstr\[1\] "{{count}} elementy"\nmsgstr\[2\] "{{count}} elementów"\nmsgstr\[3\] "{{count}} elementu"\n/
+  );
+  assert.doesNotMatch(po, /items_few/);
+});
+
+test('PO reads msgid_plural entries back as plural variants', () => {
+  const parsed = parseExchange('po', serializeExchange('po', document));
+  assert.deepEqual(
+    parsed.units.map(({ key, source, target, plural }) => ({
+      key,
+      source,
+      target,
+      plural,
+    })),
+    document.units.map(({ key, source, target, plural }) => ({
+      key,
+      source,
+      target,
+      plural,
+    }))
+  );
+  assert.equal(parsed.units[0].source, 'Say "hi" & <b>');
+});
+
+test('POT templates leave out the translations', () => {
+  const parsed = parseExchange('pot', serializeExchange('pot', document));
+  assert.ok(parsed.units.every((item) => !item.target));
+});
+
+test('CSV reads CRLF line endings, quoted fields and a byte order mark', () => {
+  const csv =
+    '\uFEFFnamespace,key,en,pl,notes\r\n' +
+    'common,title,"Say ""hi"", you",Cześć,"First\nSecond"\r\n' +
+    'common,empty,Empty,,\r\n' +
+    '\r\n';
+  const parsed = parseExchange('csv', csv);
+  assert.equal(parsed.sourceLanguage, 'en');
+  assert.equal(parsed.targetLanguage, 'pl');
+  assert.deepEqual(
+    parsed.units.map(({ key, source, target, notes }) => ({
+      key,
+      source,
+      target,
+      notes,
+    })),
+    [
+      {
+        key: 'title',
+        source: 'Say "hi", you',
+        target: 'Cześć',
+        notes: ['First', 'Second'],
+      },
+      { key: 'empty', source: 'Empty', target: '', notes: [] },
+    ]
+  );
+});
+
+test('CSV round-trips a document', () => {
+  const parsed = parseExchange('csv', serializeExchange('csv', document));
+  assert.deepEqual(
+    parsed.units.map(({ key, source, target }) => [key, source, target]),
+    document.units.map(({ key, source, target }) => [key, source, target])
+  );
+});
+
+test('CSV without the header is rejected', () => {
+  assert.throws(() => parseExchange('csv', 'common,title,Hi\r\n'), /header/);
+  assert.throws(
+    () => parseExchange('csv', 'namespace,key,en\r\ncommon,"title,Hi\r\n'),
+    /Unterminated/
+  );
+});
@@ -0,0 +1,49 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { setOrdered } = require('../scripts/exchangeTranslations');
+
+const set = (target, reference, key, value) =>
+  setOrdered(target, reference, key.split('.'), value);
+
+test('setOrdered places a new key after its predecessor', () => {
+  const reference = { a: 'A', b: 'B', c: 'C' };
+  const result = set({ a: 'a', c: 'c' }, reference, 'b', 'b');
+  assert.deepEqual(Object.keys(result), ['a', 'b', 'c']);
+});
+
+test('setOrdered places plural variants in the order of their base key', () => {
+  const reference = { title: 'Title', items_one: 'item', items_other: 'items' };
+  let result = set({ title: 'Tytuł' }, reference, 'items_many', 'elementów');
+  result = set(result, reference, 'items_one', 'element');
+  assert.deepEqual(Object.keys(result), ['title', 'items_one', 'items_many']);
+});
+
+test('setOrdered creates nested objects', () => {
+  const reference = { nav: { home: 'Home' } };
+  assert.deepEqual(set({}, reference, 'nav.home', 'Start'), {
+    nav: { home: 'Start' },
+  });
+});
+
+test('setOrdered pads arrays with null instead of copying the reference', () => {
+  const reference = { steps: ['First', 'Second', 'Third'] };
+  assert.deepEqual(set({}, reference, 'steps.2', 'Trzeci'), {
+    steps: [null, null, 'Trzeci'],
+  });
+  assert.deepEqual(reference.steps, ['First', 'Second', 'Third']);
+});
+
+test('setOrdered fills a padded array item later', () => {
+  const reference = { steps: ['First', 'Second'] };
+  let result = set({}, reference, 'steps.1', 'Drugi');
+  result = set(result, reference, 'steps.0', 'Pierwszy');
+  assert.deepEqual(result, { steps: ['Pierwszy', 'Drugi'] });
+});
+
+test('setOrdered creates objects inside arrays without their other keys', () => {
+  const reference = { faq: [{ q: 'Why?', a: 'Because' }] };
+  assert.deepEqual(set({}, reference, 'faq.0.q', 'Dlaczego?'), {
+    faq: [{ q: 'Dlaczego?' }],
+  });
+});
@@ -0,0 +1,93 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseMessage, formatMessage } = require('../dist/utils/messageFormat');
+
+test('parseMessage reads text, arguments and legacy placeholders', () => {
+  assert.deepEqual(parseMessage('Hi {name}, {{count}} new'), [
+    'Hi ',
+    { type: 'argument', name: 'name' },
+    ', ',
+    { type: 'argument', name: 'count', legacy: true },
+    ' new',
+  ]);
+});
+
+test('parseMessage keeps quoted syntax characters as text', () => {
+  assert.deepEqual(parseMessage("It's '{literal}' ''quoted''"), [
+    "It's {literal} 'quoted'",
+  ]);
+});
+
+test('parseMessage reads plural offsets, exact matches and #', () => {
+  const [node] = parseMessage(
+    '{n, plural, offset:1 =0 {none} one {# other} other {# others}}'
+  );
+  assert.equal(node.type, 'plural');
+  assert.equal(node.offset, 1);
+  assert.deepEqual(Object.keys(node.options), ['=0', 'one', 'other']);
+  assert.deepEqual(node.options.one, [{ type: 'pound' }, ' other']);
+});
+
+test('parseMessage throws on invalid syntax', () => {
+  assert.throws(() => parseMessage('a } b'), SyntaxError);
+  assert.throws(() => parseMessage('{name'), SyntaxError);
+  assert.throws(() => parseMessage('{{name'), SyntaxError);
+  assert.throws(() => parseMessage('{n, plural, one {x}}'), SyntaxError);
+});
+
+test('formatMessage picks plural and select options', () => {
+  const plural =
+    '{n, plural, offset:1 =0 {nobody} =1 {you} one {you and # other} other {you and # others}}';
+  assert.equal(formatMessage(plural, { n: 0 }, 'en'), 'nobody');
+  assert.equal(formatMessage(plural, { n: 2 }, 'en'), 'you and 1 other');
+  assert.equal(formatMessage(plural, { n: 4 }, 'en'), 'you and 3 others');
+  assert.equal(
+    formatMessage(
+      '{gender, select, female {She} other {They}} replied',
+      { gender: 'male' },
+      'en'
+    ),
+    'They replied'
+  );
+});
+
+test('formatMessage leaves arguments without a value as written', () => {
+  assert.equal(formatMessage('Hi {{name}}', {}, 'en'), 'Hi {{name}}');
+});
+
+test('formatMessage formats known number and date styles', () => {
+  assert.equal(
+    formatMessage('{n, number, integer}', { n: 1234.5 }, 'en'),
+    '1,235'
+  );
+  assert.equal(formatMessage('{n, number, percent}', { n: 0.25 }, 'en'), '25%');
+
+  const date = new Date(2024, 0, 15, 12, 30);
+  assert.equal(
+    formatMessage('{d, date, short}', { d: date }, 'en'),
+    new Intl.DateTimeFormat('en', { dateStyle: 'short' }).format(date)
+  );
+});
+
+test('formatMessage falls back to the plain format for unknown styles', () => {
+  assert.equal(
+    formatMessage('{n, number, currency}', { n: 1234.5 }, 'en'),
+    formatMessage('{n, number}', { n: 1234.5 }, 'en')
+  );
+  // Not mistaken for a style through the prototype
+  assert.equal(
+    formatMessage('{n, number, toString}', { n: 1234.5 }, 'en'),
+    '1,234.5'
+  );
+
+  const date = new Date(2024, 0, 15, 12, 30);
+  assert.equal(
+    formatMessage('{d, date, ::yyyyMMdd}', { d: date }, 'en'),
+    formatMessage('{d, date}', { d: date }, 'en')
+  );
+  assert.equal(
+    formatMessage('{d, time, hh:mm}', { d: date }, 'en'),
+    formatMessage('{d, time}', { d: date }, 'en')
+  );
+});